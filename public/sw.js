@@ -0,0 +1,109 @@
+// Service worker for offline use at clinics with unreliable connectivity.
+// Caches the app shell, recent drug-information lookups and, separately,
+// recent search suggestions. Predictions are POSTs and are never cached
+// here; the page queues them in IndexedDB and replays them itself once the
+// backend health check answers again.
+
+const VERSION = 'v2';
+const SHELL_CACHE = `shell-${VERSION}`;
+const DRUG_INFO_CACHE = `drug-info-${VERSION}`;
+const MAX_DRUG_INFO_ENTRIES = 100;
+// Every keystroke prefix is its own URL, so suggestions get a separate, smaller
+// cache instead of pushing drug information out of DRUG_INFO_CACHE
+const AUTOCOMPLETE_CACHE = `autocomplete-${VERSION}`;
+const MAX_AUTOCOMPLETE_ENTRIES = 30;
+
+const SHELL_URLS = ['/'];
+
+const DRUG_INFO_HOSTS = ['rxnav.nlm.nih.gov', 'api.fda.gov', 'pubchem.ncbi.nlm.nih.gov'];
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  const current = [SHELL_CACHE, DRUG_INFO_CACHE, AUTOCOMPLETE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !current.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isAutocompleteRequest = url =>
+  url.origin === self.location.origin && url.pathname.startsWith('/api/drugs/autocomplete');
+
+const isDrugInfoRequest = url =>
+  !isAutocompleteRequest(url) && (
+    DRUG_INFO_HOSTS.includes(url.hostname) ||
+    url.pathname.includes('/drug-info/') ||
+    (url.origin === self.location.origin && url.pathname.startsWith('/api/drugs/'))
+  );
+
+const isShellAsset = url =>
+  (url.origin === self.location.origin && url.pathname.startsWith('/_next/static/')) || FONT_HOSTS.includes(url.hostname);
+
+// Oldest entries go first; Cache keys() preserves insertion order
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+}
+
+// Fresh data when online; the last good response when not
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.delete(request);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Hashed build assets never change, so a cached copy is always valid
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  } else if (isShellAsset(url)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (isAutocompleteRequest(url)) {
+    event.respondWith(
+      networkFirst(request, AUTOCOMPLETE_CACHE).finally(() => trimCache(AUTOCOMPLETE_CACHE, MAX_AUTOCOMPLETE_ENTRIES))
+    );
+  } else if (isDrugInfoRequest(url)) {
+    event.respondWith(
+      networkFirst(request, DRUG_INFO_CACHE).finally(() => trimCache(DRUG_INFO_CACHE, MAX_DRUG_INFO_ENTRIES))
+    );
+  }
+});
+
+// Focus the app when a "queued prediction ready" notification is clicked
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows =>
+      windows.length > 0 ? windows[0].focus() : self.clients.openWindow('/')
+    )
+  );
+});
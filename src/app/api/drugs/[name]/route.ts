@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import type { DrugDocumentResponse } from '@/lib/api/schemas';
+import { buildDrugDocument } from '@/lib/drugs/aggregate';
+
+const MAX_NAME_LENGTH = 100;
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// GET /api/drugs/:name - one drug document with per-source provenance
+export async function GET(_request: Request, { params }: { params: Promise<{ name: string }> }) {
+  const drugName = safeDecode((await params).name).trim();
+  if (!drugName || drugName.length > MAX_NAME_LENGTH) {
+    return NextResponse.json({ error: `Drug name must be 1-${MAX_NAME_LENGTH} characters` }, { status: 400 });
+  }
+
+  const body: DrugDocumentResponse = { data: await buildDrugDocument(drugName) };
+  return NextResponse.json(body);
+}
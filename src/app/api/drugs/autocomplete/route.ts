@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchRemoteSuggestions } from '@/lib/drugs/aggregate';
+
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 100;
+
+// GET /api/drugs/autocomplete?q=term - RxNorm and PubChem hits for the search box
+export async function GET(request: NextRequest) {
+  const term = request.nextUrl.searchParams.get('q')?.trim() ?? '';
+  if (term.length < MIN_TERM_LENGTH || term.length > MAX_TERM_LENGTH) {
+    return NextResponse.json(
+      { error: `Query "q" must be ${MIN_TERM_LENGTH}-${MAX_TERM_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await searchRemoteSuggestions(term, request.signal));
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 502 });
+  }
+}
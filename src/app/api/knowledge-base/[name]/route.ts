@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { KNOWLEDGE_BASE_VERSION, lookupDrug } from '@/lib/drugs/knowledgeBase';
+
+const MAX_NAME_LENGTH = 100;
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// GET /api/knowledge-base/:name - monograph and class for a generic name,
+// brand name or synonym; drugs without a monograph resolve by class stem
+export async function GET(_request: Request, { params }: { params: Promise<{ name: string }> }) {
+  const drugName = safeDecode((await params).name).trim();
+  if (!drugName || drugName.length > MAX_NAME_LENGTH) {
+    return NextResponse.json({ error: `Drug name must be 1-${MAX_NAME_LENGTH} characters` }, { status: 400 });
+  }
+
+  const entry = lookupDrug(drugName);
+  if (!entry) {
+    return NextResponse.json({ error: `"${drugName}" is not in the knowledge base` }, { status: 404 });
+  }
+  return NextResponse.json({ version: KNOWLEDGE_BASE_VERSION, data: entry });
+}
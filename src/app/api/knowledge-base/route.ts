@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { knowledgeBase, searchKnowledgeBase } from '@/lib/drugs/knowledgeBase';
+
+// GET /api/knowledge-base?q=term - the bundled knowledge base, optionally
+// narrowed to drugs whose name or a synonym contains the term
+export async function GET(request: NextRequest) {
+  const term = request.nextUrl.searchParams.get('q')?.trim() ?? '';
+  return NextResponse.json({
+    version: knowledgeBase.version,
+    updated: knowledgeBase.updated,
+    classes: knowledgeBase.classes,
+    drugs: searchKnowledgeBase(term),
+  });
+}
@@ -0,0 +1,104 @@
+import Link from 'next/link';
+import { knowledgeBase, searchKnowledgeBase } from '@/lib/drugs/knowledgeBase';
+
+export const metadata = {
+  title: 'Drug Knowledge Base | AI Drug Response Predictor',
+};
+
+// Read-only view of src/data/drugKnowledgeBase.json, grouped by class, for
+// reviewing the monographs behind the drug explanations
+export default async function KnowledgeBasePage({ searchParams }: { searchParams: Promise<{ q?: string }> }) {
+  const query = (await searchParams).q?.trim() ?? '';
+  const drugs = searchKnowledgeBase(query);
+  const groups = knowledgeBase.classes
+    .map(drugClass => ({ drugClass, drugs: drugs.filter(drug => drug.class === drugClass.id) }))
+    .filter(group => !query || group.drugs.length > 0);
+
+  return (
+    <div>
+      <header className="header">
+        <div className="header-container">
+          <div className="logo-container">
+            <div className="logo-icon">
+              H
+            </div>
+            <h1 className="logo-text">HealthAI</h1>
+          </div>
+        </div>
+      </header>
+      <main className="main-container">
+        <div className="form-card">
+          <div className="form-header">
+            <h1 className="form-title">Drug Knowledge Base</h1>
+            <p className="form-subtitle">
+              Version {knowledgeBase.version}, updated {knowledgeBase.updated}. {knowledgeBase.drugs.length} monographs
+              in {knowledgeBase.classes.length} classes.
+            </p>
+            <div className="form-header-actions">
+              <Link href="/" className="history-toggle">
+                <span className="material-symbols-outlined">arrow_back</span>
+                Back to Predictor
+              </Link>
+            </div>
+          </div>
+
+          <form className="kb-search" action="/knowledge-base">
+            <input
+              type="search"
+              name="q"
+              defaultValue={query}
+              placeholder="Search by generic or brand name"
+              className="form-input"
+              aria-label="Search drugs"
+            />
+            <button type="submit" className="history-toggle">Search</button>
+          </form>
+          {query && drugs.length === 0 && (
+            <p className="text-sm text-gray-500">No monographs match &quot;{query}&quot;.</p>
+          )}
+
+          {groups.map(({ drugClass, drugs: classDrugs }) => (
+            <section key={drugClass.id} className="data-points-section">
+              <h2 className="data-points-title">
+                {drugClass.name}
+                <span className="kb-class-id">{drugClass.id}</span>
+              </h2>
+              <p className="text-sm"><strong>How it works:</strong> {drugClass.effects}</p>
+              <p className="text-sm"><strong>Precautions:</strong> {drugClass.precautions}</p>
+              {drugClass.stems.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Name stems: {drugClass.stems.map(stem => `-${stem}`).join(', ')}
+                </p>
+              )}
+
+              {classDrugs.map(drug => (
+                <details key={drug.name} className="label-section">
+                  <summary>
+                    {drug.name}
+                    {drug.synonyms.length > 0 && (
+                      <span className="text-xs text-gray-500">{drug.synonyms.join(', ')}</span>
+                    )}
+                  </summary>
+                  <div className="label-section-body">
+                    <p><strong>Indications:</strong> {drug.indications}</p>
+                    <p>{drug.uses}</p>
+                    <p>{drug.effects}</p>
+                    <p>{drug.precautions}</p>
+                    <p className="text-xs text-gray-500">Sources: {drug.sources.join('; ')}</p>
+                  </div>
+                </details>
+              ))}
+              {classDrugs.length === 0 && (
+                <p className="text-xs text-gray-500">No monographs yet; drugs in this class are matched by name stem.</p>
+              )}
+            </section>
+          ))}
+
+          <p className="text-xs text-gray-500 mt-1">
+            Content is maintained in src/data/drugKnowledgeBase.json and validated when the app builds.
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
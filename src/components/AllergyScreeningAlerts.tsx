@@ -0,0 +1,53 @@
+import { CONFIDENCE_LABELS } from '@/lib/allergy/screening';
+import type { AllergyMatchKind, AllergyScreening } from '@/lib/allergy/types';
+
+const KIND_LABELS: Record<AllergyMatchKind, string> = {
+  direct: 'Direct match',
+  'cross-reactive': 'Cross-reactive',
+};
+
+export type AllergyScreeningAlertsProps = {
+  screening: AllergyScreening;
+};
+
+// Allergy matches for the predicted drug, direct matches first
+export function AllergyScreeningAlerts({ screening }: AllergyScreeningAlertsProps) {
+  if (screening.screened === 0) return null;
+
+  if (screening.matches.length === 0) {
+    return (
+      <p className="allergy-screening-clear">
+        <span className="material-symbols-outlined">check_circle</span>
+        No direct or cross-reactive matches with {screening.screened} recorded allerg{screening.screened === 1 ? 'y' : 'ies'}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="allergy-screening">
+      <h4 className="allergy-screening-title">
+        <span className="material-symbols-outlined">warning</span>
+        Allergy screening: {screening.matches.length} match{screening.matches.length === 1 ? '' : 'es'} for {screening.drug}
+      </h4>
+      {screening.matches.map((match, index) => (
+        <div key={index} className={`factor-item allergy-match-${match.kind}`}>
+          <div className="factor-header">
+            <span className="factor-name">
+              {match.allergy.substance}
+              {match.allergy.reaction && ` (${match.allergy.reaction})`}
+            </span>
+            <span className={`impact-badge allergy-confidence-${match.confidence}`}>
+              {KIND_LABELS[match.kind]} · {CONFIDENCE_LABELS[match.confidence]} confidence
+            </span>
+          </div>
+          <p className="factor-description">{match.reason}</p>
+          <p className="text-xs text-gray-500">
+            Recorded severity: <span className={`allergy-severity allergy-severity-${match.allergy.severity}`}>{match.allergy.severity}</span>
+            {match.source && ` · ${match.source}`}
+          </p>
+        </div>
+      ))}
+      <p className="text-xs text-gray-500 mt-1">Allergen class table version {screening.tableVersion}.</p>
+    </div>
+  );
+}
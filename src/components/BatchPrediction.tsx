@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { parseCsv } from '@/lib/csv';
+import {
+  BATCH_FIELDS,
+  batchResultsCsv,
+  BatchRow,
+  ColumnMapping,
+  guessColumnMapping,
+  missingRequiredFields,
+  rowToFormData,
+  runWithConcurrency,
+  warningsCountOf,
+} from '@/lib/batch';
+import { downloadFile, filenameSlug } from '@/lib/download';
+import { requestPrediction, validatePatientForm } from '@/lib/prediction';
+
+export type BatchPredictionProps = {
+  onClose: () => void;
+};
+
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+
+const STATUS_LABELS: Record<BatchRow['status'], string> = {
+  pending: 'Pending',
+  running: 'Running…',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+export function BatchPrediction({ onClose }: BatchPredictionProps) {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [running, setRunning] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const updateRow = (index: number, patch: Partial<BatchRow>) => {
+    setRows(prev => prev.map(row => (row.index === index ? { ...row, ...patch } : row)));
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      setParseError('The file needs a header row and at least one patient row.');
+      return;
+    }
+    setParseError(null);
+    setFileName(file.name);
+    setHeaders(headerRow.map(header => header.trim()));
+    setMapping(guessColumnMapping(headerRow));
+    setRows(dataRows.map((values, index) => ({ index, values, status: 'pending' })));
+  };
+
+  const predictRow = async (row: BatchRow) => {
+    if (!mapping) return;
+    updateRow(row.index, { status: 'running', error: undefined });
+    try {
+      const data = rowToFormData(row.values, mapping);
+      validatePatientForm(data);
+      const result = await requestPrediction(data.medicineName, data);
+      updateRow(row.index, { status: 'done', result });
+    } catch (error) {
+      console.error(`❌ BATCH ROW ${row.index + 1} FAILED:`, error);
+      updateRow(row.index, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const runBatch = async (targets: BatchRow[]) => {
+    setRunning(true);
+    try {
+      await runWithConcurrency(targets, concurrency, predictRow);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const missing = mapping ? missingRequiredFields(mapping) : [];
+  const finished = rows.filter(row => row.status === 'done' || row.status === 'failed').length;
+  const failedRows = rows.filter(row => row.status === 'failed');
+  const pendingRows = rows.filter(row => row.status === 'pending');
+  const progress = rows.length > 0 ? Math.round((finished / rows.length) * 100) : 0;
+
+  const downloadResults = () => {
+    const base = fileName.replace(/\.csv$/i, '');
+    downloadFile(`${filenameSlug(base)}-predictions.csv`, batchResultsCsv(headers, rows), 'text/csv');
+  };
+
+  return (
+    <div className="prediction-container">
+      <div className="prediction-header">
+        <h2 className="prediction-title">Batch Cohort Prediction</h2>
+        <p className="prediction-subtitle">
+          Upload a CSV with one patient and drug per row. The first row must contain column headers.
+        </p>
+      </div>
+
+      <div className="form-group">
+        <label className="repeatable-add">
+          <span className="material-symbols-outlined">upload_file</span>
+          {fileName ? `Replace ${fileName}` : 'Choose CSV file'}
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="sr-only"
+            disabled={running}
+            onChange={(e) => {
+              loadFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {parseError && <p role="alert" className="text-sm text-red-700 mt-2">{parseError}</p>}
+      </div>
+
+      {mapping && (
+        <>
+          {/* Column Mapping */}
+          <div className="data-points-section">
+            <h3 className="data-points-title">Column Mapping</h3>
+            <div className="batch-mapping">
+              {BATCH_FIELDS.map(spec => (
+                <label key={spec.field} className="batch-mapping-field">
+                  <span className="text-sm">
+                    {spec.label}{spec.required && <span className="text-red-700"> *</span>}
+                  </span>
+                  <select
+                    className="form-select form-input-plain"
+                    disabled={running}
+                    value={mapping[spec.field] ?? ''}
+                    onChange={(e) => setMapping({
+                      ...mapping,
+                      [spec.field]: e.target.value === '' ? null : Number(e.target.value),
+                    })}
+                  >
+                    <option value="">— Not mapped —</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            {missing.length > 0 && (
+              <p className="text-sm text-red-700 mt-2">Map the required fields: {missing.map(spec => spec.label).join(', ')}</p>
+            )}
+          </div>
+
+          {/* Run Controls */}
+          <div className="batch-controls">
+            <label className="text-sm flex items-center gap-2">
+              Concurrent requests
+              <input
+                type="number"
+                min={1}
+                max={MAX_CONCURRENCY}
+                className="form-input form-input-plain batch-concurrency"
+                disabled={running}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </label>
+            <button
+              type="button"
+              className="action-btn action-btn-primary"
+              disabled={running || missing.length > 0 || pendingRows.length === 0}
+              onClick={() => runBatch(pendingRows)}
+            >
+              {running ? 'Running…' : `Run ${pendingRows.length} prediction${pendingRows.length === 1 ? '' : 's'}`}
+            </button>
+            {failedRows.length > 0 && (
+              <button
+                type="button"
+                className="action-btn action-btn-secondary"
+                disabled={running}
+                onClick={() => runBatch(failedRows)}
+              >
+                Retry {failedRows.length} failed
+              </button>
+            )}
+          </div>
+
+          <div
+            className="batch-progress"
+            role="progressbar"
+            aria-label="Batch progress"
+            aria-valuemin={0}
+            aria-valuemax={rows.length}
+            aria-valuenow={finished}
+          >
+            <div className="batch-progress-bar" style={{ width: `${progress}%` }} />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {finished} of {rows.length} complete{failedRows.length > 0 && ` · ${failedRows.length} failed`}
+          </p>
+
+          {/* Rows */}
+          <div className="data-points-section overflow-x-auto">
+            <table className="pharmacogenetic-table">
+              <thead>
+                <tr>
+                  <th>ROW</th>
+                  <th>MEDICINE</th>
+                  <th>STATUS</th>
+                  <th>OUTCOME</th>
+                  <th>CONFIDENCE</th>
+                  <th>DOSAGE</th>
+                  <th>WARNINGS</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.index}>
+                    <td>{row.index + 1}</td>
+                    <td>{mapping.medicineName !== null ? row.values[mapping.medicineName] : '—'}</td>
+                    <td className={`batch-status-${row.status}`}>{STATUS_LABELS[row.status]}</td>
+                    {row.result ? (
+                      <>
+                        <td>{row.result.prediction}</td>
+                        <td>{(row.result.confidence * 100).toFixed(0)}%</td>
+                        <td>{row.result.dosage}</td>
+                        <td>{warningsCountOf(row.result)}</td>
+                      </>
+                    ) : (
+                      <td colSpan={4} className="text-red-700 text-sm">{row.error}</td>
+                    )}
+                    <td>
+                      {row.status === 'failed' && (
+                        <button
+                          type="button"
+                          className="text-sm text-blue-600 hover:underline"
+                          disabled={running}
+                          onClick={() => runBatch([row])}
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="action-buttons">
+        <button className="action-btn action-btn-secondary" disabled={running} onClick={onClose}>
+          Back to Form
+        </button>
+        <button className="action-btn action-btn-primary" disabled={running || finished === 0} onClick={downloadResults}>
+          Download Results CSV
+        </button>
+      </div>
+    </div>
+  );
+}
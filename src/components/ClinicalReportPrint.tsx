@@ -0,0 +1,148 @@
+import type { ClinicalReport } from '@/lib/report';
+
+export type ClinicalReportPrintProps = {
+  report: ClinicalReport;
+};
+
+const orDash = (value: string | number | null | undefined) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+/**
+ * Print-only rendering of a clinical report. Hidden on screen; the print
+ * stylesheet in globals.css shows only this element when printing.
+ */
+export function ClinicalReportPrint({ report }: ClinicalReportPrintProps) {
+  const { patient, prediction, suitability } = report;
+
+  return (
+    <article className="print-report">
+      <header className="print-report-header">
+        <h1>Drug Response Prediction Report</h1>
+        <p>
+          Generated {new Date(report.generatedAt).toLocaleString()} · Model version {orDash(report.modelVersion)}
+          {report.source && ` · Source ${report.source}`}
+        </p>
+      </header>
+
+      <section>
+        <h2>Patient Inputs</h2>
+        <table>
+          <tbody>
+            <tr><th>Age</th><td>{patient.age} years</td><th>Gender</th><td>{orDash(patient.gender)}</td></tr>
+            <tr><th>Weight</th><td>{orDash(patient.weightKg)} kg</td><th>Height</th><td>{orDash(patient.heightCm)} cm</td></tr>
+            <tr><th>BMI</th><td>{orDash(patient.bmi)}</td><th>Serum creatinine</th><td>{orDash(patient.serumCreatinineMgDl)} mg/dL</td></tr>
+            <tr><th>Hepatic impairment</th><td>{patient.hepaticImpairment}</td><th>Chronic conditions</th><td>{orDash(patient.chronicConditions)}</td></tr>
+            <tr>
+              <th>Allergies</th>
+              <td colSpan={3}>
+                {patient.allergies.length > 0
+                  ? patient.allergies.map(allergy => [allergy.substance, allergy.reaction, allergy.severity !== 'unknown' && allergy.severity].filter(Boolean).join(' – ')).join('; ')
+                  : 'None recorded'}
+              </td>
+            </tr>
+            <tr>
+              <th>Current medications</th>
+              <td colSpan={3}>
+                {patient.currentMedications.length > 0
+                  ? patient.currentMedications.map(medication => [medication.drug, medication.dose, medication.frequency].filter(Boolean).join(' ')).join('; ')
+                  : 'None recorded'}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      <section>
+        <h2>Prediction</h2>
+        <table>
+          <tbody>
+            <tr><th>Medicine</th><td>{prediction.drug}</td></tr>
+            <tr><th>Predicted outcome</th><td>{prediction.outcome} ({prediction.predictedClass})</td></tr>
+            <tr><th>Confidence</th><td>{(prediction.confidence * 100).toFixed(0)}%</td></tr>
+            <tr><th>Dosage</th><td>{orDash(prediction.dosage)}</td></tr>
+            {prediction.dosingBasis.length > 0 && (
+              <tr><th>Dosing basis</th><td><ul>{prediction.dosingBasis.map(step => <li key={step}>{step}</li>)}</ul></td></tr>
+            )}
+          </tbody>
+        </table>
+        {prediction.explanation && <p className="print-report-explanation">{prediction.explanation}</p>}
+      </section>
+
+      {suitability && (
+        <section>
+          <h2>Suitability Assessment</h2>
+          <p>
+            <strong>{suitability.status}</strong> — score {suitability.score}%. {suitability.recommendation}
+          </p>
+          <p>
+            Monitoring required: {suitability.monitoringRequired ? 'Yes' : 'Standard'} · Interactions found: {suitability.interactionCount}
+          </p>
+          {suitability.assessmentFactors.length > 0 && (
+            <table>
+              <thead>
+                <tr><th>Factor</th><th>Impact</th><th>Assessment</th></tr>
+              </thead>
+              <tbody>
+                {suitability.assessmentFactors.map(factor => (
+                  <tr key={factor.factor}>
+                    <td>{factor.factor}</td>
+                    <td>{factor.impact}</td>
+                    <td>{factor.description} {factor.recommendation}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      )}
+
+      <section>
+        <h2>Warnings</h2>
+        {report.warnings.length > 0
+          ? <ul>{report.warnings.map(warning => <li key={warning}>{warning}</li>)}</ul>
+          : <p>No warnings reported.</p>}
+      </section>
+
+      <section>
+        <h2>Pharmacogenetic Profile</h2>
+        {report.pharmacogenetics.length > 0 ? (
+          <table>
+            <thead>
+              <tr><th>Gene</th><th>Genotype</th><th>Phenotype</th><th>Activity score</th><th>Clinical significance</th></tr>
+            </thead>
+            <tbody>
+              {report.pharmacogenetics.map(marker => (
+                <tr key={marker.gene}>
+                  <td>{marker.gene}</td>
+                  <td>{orDash(marker.genotype)}</td>
+                  <td>{marker.phenotype}</td>
+                  <td>{orDash(marker.activityScore)}</td>
+                  <td>{orDash(marker.clinicalSignificance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p>No genetic markers returned.</p>
+        )}
+      </section>
+
+      {(report.recommendations.length > 0 || report.nextSteps.length > 0) && (
+        <section>
+          <h2>Recommendations</h2>
+          {report.recommendations.length > 0 && <ul>{report.recommendations.map(rec => <li key={rec}>{rec}</li>)}</ul>}
+          {report.nextSteps.length > 0 && (
+            <>
+              <h3>Next steps</h3>
+              <ol>{report.nextSteps.map(step => <li key={step}>{step}</li>)}</ol>
+            </>
+          )}
+        </section>
+      )}
+
+      <footer className="print-report-footer">
+        AI-generated decision support. Review with a qualified healthcare professional before acting on these results.
+      </footer>
+    </article>
+  );
+}
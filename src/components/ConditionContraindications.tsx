@@ -0,0 +1,71 @@
+import { LEVEL_LABELS } from '@/lib/conditions/contraindications';
+import type { CodedCondition, ContraindicationCheck } from '@/lib/conditions/types';
+
+export type CodedConditionListProps = {
+  conditions: CodedCondition[];
+  unrecognised: string[];
+};
+
+// What the chronic conditions text was read as, shown under the input
+export function CodedConditionList({ conditions, unrecognised }: CodedConditionListProps) {
+  if (conditions.length === 0 && unrecognised.length === 0) return null;
+
+  return (
+    <div className="coded-conditions">
+      {conditions.filter(condition => !condition.implied).map(condition => (
+        <span key={condition.id} className="coded-condition" title={`SNOMED CT ${condition.snomed}`}>
+          {condition.name} <code>{condition.icd10}</code>
+        </span>
+      ))}
+      {unrecognised.map(text => (
+        <span key={text} className="coded-condition coded-condition-unrecognised" title="No matching code; not checked for contraindications">
+          {text}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export type ContraindicationFlagsProps = {
+  check: ContraindicationCheck;
+};
+
+// Drug–disease rules triggered by the patient's coded conditions
+export function ContraindicationFlags({ check }: ContraindicationFlagsProps) {
+  if (check.conditions.length === 0 && check.unrecognised.length === 0) return null;
+
+  return (
+    <div className="contraindication-flags">
+      <h4 className="contraindication-flags-title">Drug–Disease Check</h4>
+      {check.flagged.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No contraindications for {check.drug} with the recorded conditions.
+        </p>
+      ) : (
+        check.flagged.map((flag, index) => (
+          <div key={index} className={`factor-item contraindication-${flag.level}`}>
+            <div className="factor-header">
+              <span className="factor-name">
+                {flag.condition.name} <code>{flag.condition.icd10}</code>
+              </span>
+              <span className={`impact-badge contraindication-badge-${flag.level}`}>{LEVEL_LABELS[flag.level]}</span>
+            </div>
+            <p className="factor-description">{flag.rationale}</p>
+            <p className="factor-recommendation">{flag.recommendation}</p>
+            <p className="text-xs text-gray-500">
+              From &quot;{flag.condition.text}&quot; · {flag.source}
+            </p>
+          </div>
+        ))
+      )}
+      {check.unrecognised.length > 0 && (
+        <p className="text-xs text-orange-600">
+          Not coded, so not checked: {check.unrecognised.join(', ')}
+        </p>
+      )}
+      <p className="text-xs text-gray-500">
+        Contraindication table version {check.tableVersion}; condition codes version {check.codeTableVersion}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatHistoryDate } from '@/components/PredictionHistory';
+import {
+  CACHE_POLICIES,
+  CacheEntrySummary,
+  CacheSource,
+  CacheStatus,
+  clearCache,
+  deleteCacheEntry,
+  listCacheEntries,
+} from '@/lib/drugCache';
+
+export type DrugCacheInspectorProps = {
+  onClose: () => void;
+};
+
+const STATUS_BADGES: Record<CacheStatus, { label: string; color: string }> = {
+  fresh: { label: 'Fresh', color: 'green' },
+  stale: { label: 'Stale', color: 'orange' },
+  expired: { label: 'Expired', color: 'red' },
+};
+
+const formatSize = (bytes: number) => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`);
+
+// Upstream API responses are cached by the /api/drugs routes on the server
+const BROWSER_SOURCES = (Object.keys(CACHE_POLICIES) as CacheSource[])
+  .filter(source => CACHE_POLICIES[source].scope === 'browser');
+
+const formatDuration = (ms: number) => {
+  const hours = ms / (60 * 60 * 1000);
+  return hours < 24 ? `${hours} h` : `${hours / 24} d`;
+};
+
+export function DrugCacheInspector({ onClose }: DrugCacheInspectorProps) {
+  const [entries, setEntries] = useState<CacheEntrySummary[]>([]);
+  const [sourceFilter, setSourceFilter] = useState<CacheSource | ''>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listCacheEntries());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Every change re-reads the store so the table never drifts from what is persisted
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      alert(`Unable to update the drug cache. ${err instanceof Error ? err.message : String(err)}`);
+    }
+    await refresh();
+  };
+
+  const shown = sourceFilter ? entries.filter(entry => entry.source === sourceFilter) : entries;
+  const totalSize = shown.reduce((sum, entry) => sum + entry.size, 0);
+
+  return (
+    <div className="prediction-container">
+      <div className="prediction-header">
+        <h2 className="prediction-title">Drug Information Cache</h2>
+        <p className="prediction-subtitle">
+          {entries.length} cached lookup{entries.length === 1 ? '' : 's'} shared by predictions and medicine search,
+          stored in this browser only. RxNorm, openFDA and PubChem responses are cached separately on the server.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-700 mb-4">The cache is unavailable: {error}</p>}
+
+      {/* Source policies */}
+      <div className="data-points-section">
+        <h3 className="data-points-title">Sources</h3>
+        <table className="pharmacogenetic-table">
+          <thead>
+            <tr>
+              <th>SOURCE</th>
+              <th>FRESH FOR</th>
+              <th>THEN STALE FOR</th>
+              <th>ENTRIES</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {BROWSER_SOURCES.map(source => {
+              const count = entries.filter(entry => entry.source === source).length;
+              return (
+                <tr key={source}>
+                  <td>{CACHE_POLICIES[source].label}</td>
+                  <td>{formatDuration(CACHE_POLICIES[source].ttlMs)}</td>
+                  <td>{formatDuration(CACHE_POLICIES[source].staleMs)}</td>
+                  <td>{count}</td>
+                  <td>
+                    <button
+                      type="button"
+                      className="text-sm text-red-700 hover:underline"
+                      disabled={count === 0}
+                      onClick={() => run(() => clearCache(source))}
+                    >
+                      Clear
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Entries */}
+      <div className="data-points-section overflow-x-auto">
+        <div className="cache-inspector-toolbar">
+          <h3 className="data-points-title">Entries</h3>
+          <select
+            className="form-select form-input-plain"
+            aria-label="Filter by source"
+            value={sourceFilter}
+            onChange={(e) => setSourceFilter(e.target.value as CacheSource | '')}
+          >
+            <option value="">All sources</option>
+            {BROWSER_SOURCES.map(source => (
+              <option key={source} value={source}>{CACHE_POLICIES[source].label}</option>
+            ))}
+          </select>
+        </div>
+
+        {shown.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing cached yet. Lookups are stored here as they are made.</p>
+        ) : (
+          <table className="pharmacogenetic-table">
+            <thead>
+              <tr>
+                <th>SOURCE</th>
+                <th>LOOKUP</th>
+                <th>FETCHED</th>
+                <th>STATUS</th>
+                <th>SIZE</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(entry => (
+                <tr key={entry.id}>
+                  <td>{CACHE_POLICIES[entry.source].label}</td>
+                  <td>{entry.key}</td>
+                  <td>{formatHistoryDate(new Date(entry.fetchedAt).toISOString())}</td>
+                  <td>
+                    <span className={`suitability-badge suitability-${STATUS_BADGES[entry.status].color}`}>
+                      {STATUS_BADGES[entry.status].label}
+                    </span>
+                  </td>
+                  <td>{formatSize(entry.size)}</td>
+                  <td>
+                    <button
+                      type="button"
+                      className="text-sm text-red-700 hover:underline"
+                      aria-label={`Clear cached ${CACHE_POLICIES[entry.source].label} for ${entry.key}`}
+                      onClick={() => run(() => deleteCacheEntry(entry.id))}
+                    >
+                      Clear
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-xs text-gray-500 mt-1">{formatSize(totalSize)} shown</p>
+      </div>
+
+      <div className="action-buttons">
+        <button className="action-btn action-btn-secondary" onClick={onClose}>
+          Back to Form
+        </button>
+        <button className="action-btn action-btn-primary" disabled={entries.length === 0} onClick={() => run(() => clearCache())}>
+          Clear All
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,38 +1,88 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { useDebounce } from "@/hooks/useDebounce";
+import { defaultProviders, searchDrugSuggestions } from "@/lib/autocomplete/search";
+import type { AutocompleteProvider, DrugSuggestion, SuggestionSource } from "@/lib/autocomplete/types";
 
 export type DrugSearchInputProps = {
   value: string;
   onChange: (value: string) => void;
-  onSelected?: (value: string) => void;
+  onSelected?: (value: string, suggestion: DrugSuggestion) => void;
+  providers?: AutocompleteProvider[]; // default: local, RxNorm, PubChem
+  id?: string; // default "drug-search-input"
+  name?: string;
   label?: string;
   placeholder?: string;
   minChars?: number; // default 3
   debounceMs?: number; // default 300
   disabled?: boolean;
+  required?: boolean;
+  icon?: string; // Material Symbols name rendered inside the input
   className?: string;
+  labelClassName?: string;
+  inputClassName?: string;
 };
 
-const PUBCHEM_AUTOCOMPLETE_BASE =
-  "https://pubchem.ncbi.nlm.nih.gov/rest/autocomplete/Compound/query/";
+type LookupStatus = "idle" | "loading" | "results" | "empty" | "error";
+
+const SOURCE_BADGES: Record<SuggestionSource, { label: string; className: string }> = {
+  local: { label: "Local", className: "bg-gray-100 text-gray-700" },
+  rxnorm: { label: "RxNorm", className: "bg-green-100 text-green-800" },
+  pubchem: { label: "PubChem", className: "bg-blue-100 text-blue-800" },
+};
+
+// Wraps every case-insensitive occurrence of `term` in <mark>
+function highlightMatch(text: string, term: string): React.ReactNode {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return text;
+  const parts: React.ReactNode[] = [];
+  const haystack = text.toLowerCase();
+  let cursor = 0;
+  let hit = haystack.indexOf(needle);
+  while (hit !== -1) {
+    if (hit > cursor) parts.push(text.slice(cursor, hit));
+    parts.push(
+      <mark key={hit} className="bg-yellow-100 font-semibold text-inherit">
+        {text.slice(hit, hit + needle.length)}
+      </mark>
+    );
+    cursor = hit + needle.length;
+    hit = haystack.indexOf(needle, cursor);
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return parts;
+}
 
 export function DrugSearchInput({
   value,
   onChange,
   onSelected,
+  providers = defaultProviders,
+  id = "drug-search-input",
+  name,
   label = "Medicine Name",
   placeholder = "Search a medicine (e.g., Aspirin, Ibuprofen)",
   minChars = 3,
   debounceMs = 300,
   disabled,
+  required,
+  icon,
   className,
+  labelClassName = "block mb-1 font-medium",
+  inputClassName = "w-full border rounded px-3 py-2",
 }: DrugSearchInputProps) {
   const [inputValue, setInputValue] = useState<string>(value ?? "");
-  const [suggestions, setSuggestions] = useState<string[]>([]);
-  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [suggestions, setSuggestions] = useState<DrugSuggestion[]>([]);
+  const [status, setStatus] = useState<LookupStatus>("idle");
+  const [lookupError, setLookupError] = useState<string | null>(null);
   const [open, setOpen] = useState<boolean>(false);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
   const listRef = useRef<HTMLUListElement | null>(null);
   const controllerRef = useRef<AbortController | null>(null);
+  // Term the user just picked; suppresses the lookup its debounce would trigger
+  const selectedRef = useRef<string | null>(null);
+
+  const listId = `${id}-listbox`;
+  const optionId = useCallback((index: number) => `${id}-option-${index}`, [id]);
 
   // Keep local input in sync if parent value changes externally
   useEffect(() => {
@@ -42,8 +92,10 @@ export function DrugSearchInput({
   const debounced = useDebounce(inputValue, debounceMs);
 
   const fetchDrugSuggestions = useCallback(async (term: string) => {
-    if (!term || term.trim().length < minChars) {
+    if (!term || term.trim().length < minChars || term === selectedRef.current) {
+      controllerRef.current?.abort();
       setSuggestions([]);
+      setStatus("idle");
       setOpen(false);
       return;
     }
@@ -53,28 +105,21 @@ export function DrugSearchInput({
     controllerRef.current = controller;
 
     try {
-      setIsSearching(true);
-      // PubChem autocomplete: .../query/[QUERY]/json
-      const url = `${PUBCHEM_AUTOCOMPLETE_BASE}${encodeURIComponent(term)}/json`;
-      const resp = await fetch(url, { signal: controller.signal });
-      if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
-      const data = await resp.json();
-      const list: string[] =
-        data?.dictionary_terms?.compound && Array.isArray(data.dictionary_terms.compound)
-          ? data.dictionary_terms.compound
-          : [];
-      setSuggestions(list.slice(0, 10));
-      setOpen(list.length > 0);
+      setStatus("loading");
+      setLookupError(null);
+      const list = await searchDrugSuggestions(term, providers, controller.signal);
+      setSuggestions(list);
+      setStatus(list.length > 0 ? "results" : "empty");
+      setActiveIndex(-1);
+      setOpen(true);
     } catch (e) {
-      if ((e as any)?.name !== "AbortError") {
-        // Swallow network errors; just close list
-        setSuggestions([]);
-        setOpen(false);
-      }
-    } finally {
-      setIsSearching(false);
+      if ((e as Error)?.name === "AbortError") return;
+      setSuggestions([]);
+      setLookupError((e as Error)?.message ?? "Unknown error");
+      setStatus("error");
+      setOpen(true);
     }
-  }, [minChars]);
+  }, [minChars, providers]);
 
   // Trigger suggestion fetch when debounced term changes
   useEffect(() => {
@@ -83,9 +128,17 @@ export function DrugSearchInput({
     return () => controllerRef.current?.abort();
   }, [debounced, fetchDrugSuggestions]);
 
+  // Keep the active option visible while navigating with the keyboard
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    const el = listRef.current?.querySelector<HTMLElement>(`#${CSS.escape(optionId(activeIndex))}`);
+    el?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex, optionId]);
+
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const next = e.target.value;
+      selectedRef.current = null;
       setInputValue(next);
       onChange(next);
     },
@@ -93,68 +146,143 @@ export function DrugSearchInput({
   );
 
   const handleDrugSelection = useCallback(
-    (name: string) => {
+    (suggestion: DrugSuggestion) => {
+      const name = suggestion.name;
+      selectedRef.current = name;
       setInputValue(name);
       onChange(name);
-      onSelected?.(name);
+      onSelected?.(name, suggestion);
       setSuggestions([]);
+      setStatus("idle");
+      setActiveIndex(-1);
       setOpen(false);
     },
     [onChange, onSelected]
   );
 
-  const showList = open && suggestions.length > 0;
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      switch (e.key) {
+        case "ArrowDown":
+          if (suggestions.length === 0) return;
+          e.preventDefault();
+          setOpen(true);
+          setActiveIndex((i) => (i + 1) % suggestions.length);
+          break;
+        case "ArrowUp":
+          if (suggestions.length === 0) return;
+          e.preventDefault();
+          setOpen(true);
+          setActiveIndex((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+          break;
+        case "Enter":
+          // Only intercept Enter while an option is highlighted so the
+          // surrounding form can still be submitted from the field.
+          if (open && activeIndex >= 0 && activeIndex < suggestions.length) {
+            e.preventDefault();
+            handleDrugSelection(suggestions[activeIndex]);
+          }
+          break;
+        case "Escape":
+          if (open) {
+            e.preventDefault();
+            setOpen(false);
+            setActiveIndex(-1);
+          }
+          break;
+      }
+    },
+    [activeIndex, handleDrugSelection, open, suggestions]
+  );
+
+  const showList = open && status === "results" && suggestions.length > 0;
+  const showMessage = open && (status === "empty" || status === "error");
 
   return (
     <div className={"relative " + (className ?? "") }>
       {label ? (
-        <label className="block mb-1 font-medium" htmlFor="drug-search-input">
+        <label className={labelClassName} htmlFor={id}>
           {label}
         </label>
       ) : null}
 
-      <div className="flex items-center gap-2">
+      <div className="input-container flex items-center gap-2">
+        {icon ? <span className="input-icon material-symbols-outlined">{icon}</span> : null}
         <input
-          id="drug-search-input"
+          id={id}
+          name={name}
           type="text"
-          className="w-full border rounded px-3 py-2"
+          className={inputClassName}
           placeholder={placeholder}
           value={inputValue}
           onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
           onFocus={() => setOpen(suggestions.length > 0)}
           onBlur={() => setTimeout(() => setOpen(false), 150)}
           disabled={disabled}
+          required={required}
           autoComplete="off"
           aria-autocomplete="list"
           aria-expanded={showList}
-          aria-controls="drug-suggestions-list"
+          aria-controls={listId}
+          aria-activedescendant={showList && activeIndex >= 0 ? optionId(activeIndex) : undefined}
           role="combobox"
         />
-        {isSearching ? (
-          <span className="text-sm text-gray-500">Searching…</span>
+        {status === "loading" ? (
+          <span className="text-sm text-gray-500 whitespace-nowrap">Searching…</span>
         ) : null}
       </div>
 
       {showList && (
         <ul
           ref={listRef}
-          id="drug-suggestions-list"
+          id={listId}
           role="listbox"
           className="absolute z-10 mt-1 w-full max-h-64 overflow-auto bg-white border rounded shadow"
         >
           {suggestions.map((s, idx) => (
             <li
-              key={`${s}-${idx}`}
+              key={`${s.name}-${idx}`}
+              id={optionId(idx)}
               role="option"
-              className="px-3 py-2 hover:bg-gray-100 cursor-pointer"
+              aria-selected={idx === activeIndex}
+              className={`flex items-center justify-between gap-2 px-3 py-2 cursor-pointer ${idx === activeIndex ? "bg-gray-100" : "hover:bg-gray-100"}`}
               onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(idx)}
               onClick={() => handleDrugSelection(s)}
             >
-              {s}
+              <span>{highlightMatch(s.name, inputValue)}</span>
+              <span className="flex items-center gap-1 text-xs whitespace-nowrap">
+                {s.identifiers
+                  .filter((identifier) => identifier.system !== "local")
+                  .map((identifier) => (
+                    <span key={identifier.system} className="text-gray-500">
+                      {identifier.system} {identifier.value}
+                    </span>
+                  ))}
+                {s.sources.map((source) => (
+                  <span key={source} className={`rounded px-1.5 py-0.5 font-medium ${SOURCE_BADGES[source].className}`}>
+                    {SOURCE_BADGES[source].label}
+                  </span>
+                ))}
+              </span>
             </li>
           ))}
         </ul>
       )}
+
+      {showMessage && (
+        <div
+          role="status"
+          className={`absolute z-10 mt-1 w-full bg-white border rounded shadow px-3 py-2 text-sm ${
+            status === "error" ? "text-red-700" : "text-gray-500"
+          }`}
+        >
+          {status === "error"
+            ? `Medicine lookup failed (${lookupError}). You can still type the name manually.`
+            : `No medicines match "${inputValue.trim()}".`}
+        </div>
+      )}
     </div>
   );
 }
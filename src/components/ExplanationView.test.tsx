@@ -0,0 +1,37 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { ExplanationView } from '@/components/ExplanationView';
+import { buildExplanationDocument } from '@/lib/explanation';
+
+const render = (text: string, drugName: string) =>
+  renderToStaticMarkup(<ExplanationView document={buildExplanationDocument(text, drugName)} />);
+
+describe('ExplanationView', () => {
+  it('renders script in a drug name as text', () => {
+    const html = render('**How it works:** Inhibits platelet aggregation.', '<script>alert(1)</script>');
+    expect(html).not.toContain('<script');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+
+  it('renders HTML in label text as text in every section kind', () => {
+    const html = render(
+      '**Mechanism of Action:** <img src=x onerror=alert(1)> blocks COX. ' +
+      '**Chemical Formula:** <svg onload=alert(1)> ' +
+      '**Safety Assessment:** <iframe src="javascript:alert(1)"></iframe> monitor closely. ' +
+      '**Recommendation:** <b onmouseover=alert(1)>continue</b> as prescribed.',
+      'ibuprofen'
+    );
+    for (const tag of ['<img', '<svg', '<iframe', '<b ']) {
+      expect(html).not.toContain(tag);
+    }
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('<code>&lt;svg onload=alert(1)&gt;</code>');
+    expect(html).toContain('&lt;iframe src=&quot;javascript:alert(1)&quot;&gt;&lt;/iframe&gt;');
+  });
+
+  it('renders markup in unlabelled detail paragraphs as text', () => {
+    const html = render('BOXED WARNING <a href="javascript:alert(1)">details</a>', 'warfarin');
+    expect(html).not.toContain('<a ');
+    expect(html).toContain('&lt;a href=&quot;javascript:alert(1)&quot;&gt;details&lt;/a&gt;');
+  });
+});
@@ -0,0 +1,31 @@
+import { ExplanationDocument, SECTION_HEADINGS } from '@/lib/explanation';
+
+export type ExplanationViewProps = {
+  document: ExplanationDocument;
+};
+
+// Every value is rendered as a React text node, so it is escaped, never parsed as HTML
+export function ExplanationView({ document }: ExplanationViewProps) {
+  return (
+    <div className="explanation-content">
+      {document.sections.map((section, index) => {
+        if (section.kind === 'summary') {
+          return (
+            <p key={index} className="explanation-section">
+              <strong>{document.drugName}</strong>: {section.text}
+            </p>
+          );
+        }
+        if (section.kind === 'details') {
+          return <p key={index} className="explanation-section">{section.text}</p>;
+        }
+        return (
+          <p key={index} className={`explanation-section explanation-${section.kind}`}>
+            <strong>{SECTION_HEADINGS[section.kind]}:</strong>{' '}
+            {section.kind === 'formula' ? <code>{section.text}</code> : <span>{section.text}</span>}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
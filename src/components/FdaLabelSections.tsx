@@ -0,0 +1,76 @@
+import type { FdaLabelSection } from '@/lib/api/schemas';
+
+type LabelBlock = FdaLabelSection['blocks'][number];
+
+function LabelBlocks({ blocks }: { blocks: LabelBlock[] }) {
+  return (
+    <>
+      {blocks.map((block, index) => (
+        <div key={`${block.number ?? ''}-${index}`} className="label-block">
+          {block.text && (
+            <p>
+              {block.number && <strong className="label-block-number">{block.number}</strong>}
+              {block.text}
+            </p>
+          )}
+          {block.bullets.length > 0 && (
+            <ul>
+              {block.bullets.map((bullet, bulletIndex) => <li key={bulletIndex}>{bullet}</li>)}
+            </ul>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
+
+export type BoxedWarningAlertProps = {
+  sections?: FdaLabelSection[];
+};
+
+// The label's boxed warning, shown in full above everything else in the result
+export function BoxedWarningAlert({ sections }: BoxedWarningAlertProps) {
+  const boxedWarning = sections?.find(section => section.id === 'boxed_warning');
+  if (!boxedWarning) return null;
+
+  return (
+    <div className="boxed-warning" role="alert">
+      <h3 className="boxed-warning-title">
+        <span className="material-symbols-outlined">warning</span>
+        {boxedWarning.headline ?? 'Boxed Warning'}
+      </h3>
+      <p className="text-xs mb-2">FDA boxed warning from the prescribing information</p>
+      <LabelBlocks blocks={boxedWarning.blocks} />
+    </div>
+  );
+}
+
+export type FdaLabelSectionsProps = {
+  sections?: FdaLabelSection[];
+};
+
+// Every other label section as a collapsible panel, closed by default
+export function FdaLabelSections({ sections }: FdaLabelSectionsProps) {
+  const panels = sections?.filter(section => section.id !== 'boxed_warning') ?? [];
+  if (panels.length === 0) return null;
+
+  return (
+    <div className="data-points-section">
+      <h3 className="data-points-title">FDA Prescribing Information</h3>
+      {panels.map(section => (
+        <details key={section.id} className="label-section">
+          <summary>
+            {section.title}
+            <span className="text-xs text-gray-500">
+              {section.blocks.length} part{section.blocks.length === 1 ? '' : 's'}
+            </span>
+          </summary>
+          <div className="label-section-body">
+            <LabelBlocks blocks={section.blocks} />
+          </div>
+        </details>
+      ))}
+      <p className="text-xs text-gray-500 mt-1">Source: openFDA drug label. Always check the current label before prescribing.</p>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { FhirFormPatch, FhirImportResult, importFhirBundleText } from '@/lib/fhir/import';
+import { SchemaValidationError } from '@/lib/validation';
+
+export type FhirImportPanelProps = {
+  onImport: (patch: FhirFormPatch) => void;
+};
+
+const SEVERITY_CLASSES = {
+  error: 'fhir-issue-error',
+  warning: 'fhir-issue-warning',
+  info: 'fhir-issue-info',
+} as const;
+
+export function FhirImportPanel({ onImport }: FhirImportPanelProps) {
+  const [text, setText] = useState('');
+  const [result, setResult] = useState<FhirImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runImport = (source: string) => {
+    try {
+      const imported = importFhirBundleText(source);
+      setResult(imported);
+      setError(null);
+      onImport(imported.patch);
+    } catch (err) {
+      if (!(err instanceof SchemaValidationError)) throw err;
+      setResult(null);
+      setError(`This is not a valid FHIR R4 Bundle. ${err.message}`);
+    }
+  };
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    runImport(content);
+  };
+
+  return (
+    <details className="form-group fhir-import">
+      <summary className="form-label">Import from EHR (FHIR R4 Bundle)</summary>
+      <p className="text-xs text-gray-500 mb-2">
+        Paste a Bundle or drop a .json file. Patient, Observation (weight, height, creatinine), Condition and
+        MedicationStatement resources prefill the form; everything else is reported below.
+      </p>
+      <textarea
+        className="form-textarea"
+        rows={4}
+        aria-label="FHIR R4 Bundle JSON"
+        placeholder='{"resourceType": "Bundle", "entry": [...]}'
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          readFile(e.dataTransfer.files[0]);
+        }}
+      />
+      <div className="fhir-import-actions">
+        <button type="button" className="repeatable-add" disabled={!text.trim()} onClick={() => runImport(text)}>
+          <span className="material-symbols-outlined">download</span>
+          Import bundle
+        </button>
+        <label className="repeatable-add">
+          <span className="material-symbols-outlined">upload_file</span>
+          Choose file
+          <input
+            type="file"
+            accept=".json,application/json,application/fhir+json"
+            className="sr-only"
+            onChange={(e) => {
+              readFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {error && <p role="alert" className="text-sm text-red-700 mt-2">{error}</p>}
+
+      {result && (
+        <div className="fhir-import-result" role="status">
+          <p className="text-sm">
+            {result.filled.length > 0
+              ? <>Filled: <strong>{result.filled.join(', ')}</strong></>
+              : 'Nothing in this bundle could be used to fill the form.'}
+          </p>
+          {result.issues.length > 0 && (
+            <ul className="fhir-issues">
+              {result.issues.map((issue, index) => (
+                <li key={index} className={SEVERITY_CLASSES[issue.severity]}>
+                  <span className="fhir-issue-resource">{issue.resource}</span> {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,114 @@
+import { resolveDrug } from '@/lib/drugs/knowledgeBase';
+import { STRENGTH_LABELS } from '@/lib/pgx/guidelines';
+import type { GuidelineRecommendation } from '@/lib/pgx/types';
+import type { GeneticMarker } from '@/types/prediction';
+
+export type GeneticMarkerListProps = {
+  markers: GeneticMarker[];
+  /** The medicine being predicted; markers that affect it are highlighted. */
+  drugName?: string;
+  guidance: GuidelineRecommendation[];
+};
+
+// Activity scores run from 0 (no function) to 3 (CYP2C19 *17/*17, CYP2D6 gene duplications)
+const GAUGE_MAX = 3;
+
+type GeneGroup = {
+  gene: string;
+  markers: GeneticMarker[];
+  relevant: boolean;
+};
+
+const affects = (marker: GeneticMarker, drug: string) =>
+  drug !== '' && marker.drugsAffected.some(affected => affected.toLowerCase() === drug);
+
+function groupByGene(markers: GeneticMarker[], drug: string, guidedGenes: Set<string>): GeneGroup[] {
+  const groups = new Map<string, GeneticMarker[]>();
+  for (const marker of markers) {
+    groups.set(marker.gene, [...(groups.get(marker.gene) ?? []), marker]);
+  }
+  return Array.from(groups, ([gene, geneMarkers]) => ({
+    gene,
+    markers: geneMarkers,
+    relevant: guidedGenes.has(gene) || geneMarkers.some(marker => affects(marker, drug)),
+  })).sort((a, b) => Number(b.relevant) - Number(a.relevant));
+}
+
+export function GeneticMarkerList({ markers, drugName, guidance }: GeneticMarkerListProps) {
+  // Markers list generic names, so "Plavix" has to resolve to clopidogrel first
+  const drug = drugName?.trim() ? resolveDrug(drugName).name : '';
+  const guidanceByGene = new Map(guidance.map(item => [item.gene, item]));
+  const groups = groupByGene(markers, drug, new Set(guidanceByGene.keys()));
+
+  return (
+    <div className="space-y-3">
+      {groups.map(group => {
+        const recommendation = guidanceByGene.get(group.gene);
+        return (
+          <section key={group.gene} className={`marker-group${group.relevant ? ' marker-group-relevant' : ''}`}>
+            <h4 className="font-semibold text-sm text-gray-800 mb-1">
+              {group.gene}
+              {group.relevant && <span className="marker-relevant-badge">Affects {drugName?.trim()}</span>}
+            </h4>
+
+            {group.markers.map((marker, index) => (
+              <div key={`${marker.genotype}-${index}`} className="marker-entry">
+                <div className="marker-entry-header">
+                  <span className="text-sm">
+                    <strong>{marker.genotype}</strong> · {marker.phenotype}
+                  </span>
+                  <span className="text-xs text-gray-500">Activity score {marker.activityScore}</span>
+                </div>
+                <div
+                  className="activity-gauge"
+                  role="meter"
+                  aria-label={`${group.gene} activity score`}
+                  aria-valuemin={0}
+                  aria-valuemax={GAUGE_MAX}
+                  aria-valuenow={marker.activityScore}
+                >
+                  <div
+                    className="activity-gauge-bar"
+                    style={{ width: `${Math.min(marker.activityScore / GAUGE_MAX, 1) * 100}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-600 mt-1">
+                  {marker.clinicalSignificance || 'Clinical significance assessment based on phenotype analysis.'}
+                </p>
+                {marker.drugsAffected.length > 0 && (
+                  <p className="text-xs text-blue-600 mt-1">
+                    <strong>Affected drugs:</strong>{' '}
+                    {marker.drugsAffected.map((affected, drugIndex) => (
+                      <span key={affected}>
+                        {drugIndex > 0 && ', '}
+                        {affected.toLowerCase() === drug ? <mark className="marker-drug-match">{affected}</mark> : affected}
+                      </span>
+                    ))}
+                  </p>
+                )}
+              </div>
+            ))}
+
+            {recommendation && (
+              <div className="pgx-guidance">
+                <p className="text-sm text-gray-800">
+                  <strong>Recommendation:</strong> {recommendation.recommendation}
+                  <span className={`pgx-strength pgx-strength-${recommendation.strength.replace(' ', '-')}`}>
+                    {STRENGTH_LABELS[recommendation.strength]}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-600 mt-1">{recommendation.implication}</p>
+                {recommendation.alternatives.length > 0 && (
+                  <p className="text-xs text-blue-600 mt-1">
+                    <strong>Alternatives:</strong> {recommendation.alternatives.join(', ')}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">{recommendation.source}</p>
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { callPharmacogenes, parseGenotypeFile, toGeneticMarkers } from '@/lib/pgx/genotype';
+import type { GeneCall, GenotypeFileSummary } from '@/lib/pgx/types';
+import { getClinicalSignificance } from '@/lib/prediction';
+import type { GeneticMarker } from '@/types/prediction';
+
+export type GenotypeUploadProps = {
+  value: GeneticMarker[];
+  onChange: (markers: GeneticMarker[]) => void;
+};
+
+type UploadResult = {
+  fileName: string;
+  summary: GenotypeFileSummary;
+  calls: GeneCall[];
+  markers: GeneticMarker[];
+};
+
+const FORMAT_LABELS: Record<GenotypeFileSummary['format'], string> = {
+  vcf: 'VCF',
+  raw: 'raw genotype file',
+};
+
+export function GenotypeUpload({ value, onChange }: GenotypeUploadProps) {
+  const [result, setResult] = useState<UploadResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A file that cannot be read or parsed leaves the previous genotypes in place
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { observed, summary } = parseGenotypeFile(await file.text());
+      const calls = callPharmacogenes(observed);
+      const markers = toGeneticMarkers(calls, getClinicalSignificance);
+      setError(null);
+      setResult({ fileName: file.name, summary, calls, markers });
+      onChange(markers);
+    } catch (e) {
+      setError(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const clear = () => {
+    setError(null);
+    setResult(null);
+    onChange([]);
+  };
+
+  // Hidden once the form has been reset underneath us
+  const shown = result && (value.length > 0 || result.markers.length === 0) ? result : null;
+  const reported = new Set(value.map(marker => marker.gene));
+
+  return (
+    <div className="form-group">
+      <label className="form-label">Genotype File</label>
+      <p className="text-xs text-gray-500 mb-2">
+        Optional. A VCF or a 23andMe / AncestryDNA raw-data export is read in the browser; only the
+        CYP2D6, CYP2C19, CYP2C9, VKORC1, SLCO1B1 and TPMT variants are used and sent with the prediction.
+      </p>
+      <div className="genotype-upload-actions">
+        <label className="repeatable-add">
+          <span className="material-symbols-outlined">upload_file</span>
+          {shown ? `Replace ${shown.fileName}` : 'Choose genotype file'}
+          <input
+            type="file"
+            accept=".vcf,.txt,.csv,text/plain,text/csv"
+            className="sr-only"
+            onChange={(e) => {
+              readFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {shown && (
+          <button type="button" className="repeatable-add" onClick={clear}>
+            <span className="material-symbols-outlined">close</span>
+            Clear genotypes
+          </button>
+        )}
+      </div>
+
+      {error && <p role="alert" className="text-sm text-red-700 mt-2">{error}</p>}
+
+      {shown && (
+        <div className="genotype-upload-result" role="status">
+          <p className="text-sm">
+            Read {shown.summary.matchedVariants} pharmacogene variant{shown.summary.matchedVariants === 1 ? '' : 's'} from
+            this {FORMAT_LABELS[shown.summary.format]} ({shown.summary.totalRows} rows).
+          </p>
+          {shown.markers.length === 0 ? (
+            <p className="text-sm text-red-700">None of the supported pharmacogene variants were found in this file.</p>
+          ) : (
+            <table className="pharmacogenetic-table mt-2">
+              <thead>
+                <tr>
+                  <th>GENE</th>
+                  <th>GENOTYPE</th>
+                  <th>PHENOTYPE</th>
+                  <th>NOT GENOTYPED</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.calls.map(call => (
+                  <tr key={call.gene}>
+                    <td>{call.gene}</td>
+                    {reported.has(call.gene) ? (
+                      <>
+                        <td>{call.genotype}</td>
+                        <td>{call.phenotype}</td>
+                        <td className="text-xs">{call.missingVariants.join(', ') || '—'}</td>
+                      </>
+                    ) : (
+                      <td colSpan={3} className="text-xs text-gray-500">
+                        {call.ambiguous
+                          ? 'Observed variants match no known allele pair; not sent'
+                          : 'No defining variants in file; not sent'}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { majorInteractions } from '@/lib/interactions/check';
+import type { DrugInteraction, InteractionCheck, InteractionProviderId } from '@/lib/interactions/types';
+
+const SEVERITY_LABELS: Record<DrugInteraction['severity'], string> = {
+  major: 'Major',
+  moderate: 'Moderate',
+  minor: 'Minor',
+};
+
+const PROVIDER_LABELS: Record<InteractionProviderId, string> = {
+  bundled: 'Bundled table',
+  remote: 'Interaction service',
+};
+
+export type MajorInteractionBannerProps = {
+  check?: InteractionCheck;
+  drugName: string;
+  onMakeChanges: () => void;
+};
+
+/**
+ * Major interactions block the results screen until the prescriber
+ * acknowledges them; afterwards they stay listed at the top of the results.
+ * Acknowledgement is per check, so a new prediction blocks again.
+ */
+export function MajorInteractionBanner({ check, drugName, onMakeChanges }: MajorInteractionBannerProps) {
+  const [acknowledged, setAcknowledged] = useState<InteractionCheck | null>(null);
+  const majors = majorInteractions(check);
+  if (!check || majors.length === 0) return null;
+
+  const list = (
+    <ul className="interaction-banner-list">
+      {majors.map(interaction => (
+        <li key={interaction.medication}>
+          <strong>{drugName} + {interaction.medication}:</strong> {interaction.management}
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (acknowledged === check) {
+    return (
+      <div className="interaction-banner" role="alert">
+        <h3 className="interaction-banner-title">
+          <span className="material-symbols-outlined">block</span>
+          Major drug–drug interaction{majors.length === 1 ? '' : 's'}
+        </h3>
+        {list}
+      </div>
+    );
+  }
+
+  return (
+    <div className="interaction-block-overlay">
+      <div className="interaction-banner interaction-banner-blocking" role="alertdialog" aria-modal="true" aria-labelledby="interaction-banner-title">
+        <h3 id="interaction-banner-title" className="interaction-banner-title">
+          <span className="material-symbols-outlined">block</span>
+          {majors.length} major drug–drug interaction{majors.length === 1 ? '' : 's'} with current medications
+        </h3>
+        {list}
+        <p className="text-xs mb-2">Review the interactions before using this prediction.</p>
+        <div className="interaction-banner-actions">
+          <button type="button" className="action-btn action-btn-secondary" onClick={onMakeChanges}>
+            Make Changes
+          </button>
+          <button type="button" className="action-btn action-btn-primary" onClick={() => setAcknowledged(check)}>
+            I have reviewed these interactions
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export type InteractionCheckPanelProps = {
+  check?: InteractionCheck;
+};
+
+// Every finding with its mechanism and management, worst first
+export function InteractionCheckPanel({ check }: InteractionCheckPanelProps) {
+  if (!check) return null;
+  const unavailable = check.providers.filter(provider => provider.status === 'unavailable');
+
+  return (
+    <div className="data-points-section">
+      <h3 className="data-points-title">Drug–Drug Interactions</h3>
+      {check.medications.length === 0 ? (
+        <p className="text-sm text-gray-500">No current medications recorded, so nothing was checked.</p>
+      ) : check.interactions.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No interactions found between {check.drug} and {check.medications.join(', ')}.
+        </p>
+      ) : (
+        check.interactions.map(interaction => (
+          <div key={interaction.medication} className={`interaction-item interaction-${interaction.severity}`}>
+            <div className="interaction-item-header">
+              <span className="factor-name">{check.drug} + {interaction.medication}</span>
+              <span className={`interaction-severity interaction-severity-${interaction.severity}`}>
+                {SEVERITY_LABELS[interaction.severity]}
+              </span>
+            </div>
+            <p><strong>Mechanism:</strong> {interaction.mechanism}</p>
+            <p><strong>Management:</strong> {interaction.management}</p>
+            <p className="text-xs text-gray-500">
+              {interaction.source} · reported by {interaction.providers.map(provider => PROVIDER_LABELS[provider]).join(', ')}
+            </p>
+          </div>
+        ))
+      )}
+      {unavailable.length > 0 && (
+        <p className="text-xs text-orange-600 mt-1">
+          Not checked against: {unavailable.map(provider => provider.label).join(', ')} (unavailable).
+        </p>
+      )}
+      <p className="text-xs text-gray-500 mt-1">Interaction table version {check.tableVersion}.</p>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { MOCK_FIXTURES_RECORDED } from '@/data/mockBackend';
+import { MOCK_SCENARIOS, MockScenario, MockSettings } from '@/lib/api/mock';
+
+export type MockModeBannerProps = {
+  settings: MockSettings;
+  onChange: (settings: MockSettings) => void;
+};
+
+// Stays on screen in every view so mock results are never mistaken for real ones
+export function MockModeBanner({ settings, onChange }: MockModeBannerProps) {
+  if (!settings.enabled) return null;
+
+  return (
+    <div className="mock-mode-banner" role="status">
+      <span className="material-symbols-outlined">science</span>
+      <strong>Mock backend</strong>
+      <span className="text-xs">Fixtures recorded {MOCK_FIXTURES_RECORDED}; nothing is sent to the prediction service.</span>
+      <select
+        className="form-select form-input-plain"
+        aria-label="Mock scenario"
+        title={MOCK_SCENARIOS[settings.scenario].description}
+        value={settings.scenario}
+        onChange={(e) => onChange({ ...settings, scenario: e.target.value as MockScenario })}
+      >
+        {(Object.keys(MOCK_SCENARIOS) as MockScenario[]).map(scenario => (
+          <option key={scenario} value={scenario}>{MOCK_SCENARIOS[scenario].label}</option>
+        ))}
+      </select>
+      <button type="button" className="mock-mode-exit" onClick={() => onChange({ ...settings, enabled: false })}>
+        Use real backend
+      </button>
+    </div>
+  );
+}
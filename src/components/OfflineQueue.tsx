@@ -0,0 +1,78 @@
+import { formatHistoryDate } from '@/components/PredictionHistory';
+import type { QueuedPrediction } from '@/lib/offlineQueue';
+
+export type QueueNotice = {
+  id: string;
+  message: string;
+  /** History record holding the replayed result; absent for failures. */
+  recordId?: string;
+};
+
+export type OfflineQueuePanelProps = {
+  queued: QueuedPrediction[];
+  replaying: boolean;
+  onRemove: (id: string) => void;
+};
+
+export function OfflineQueuePanel({ queued, replaying, onRemove }: OfflineQueuePanelProps) {
+  if (queued.length === 0) return null;
+
+  return (
+    <div className="offline-queue" role="status">
+      <p className="text-sm">
+        <span className="material-symbols-outlined">cloud_off</span>
+        {replaying
+          ? `Connection restored — running ${queued.length} queued prediction${queued.length === 1 ? '' : 's'}…`
+          : `${queued.length} prediction${queued.length === 1 ? '' : 's'} queued. They will run automatically when the prediction service is reachable.`}
+      </p>
+      <ul className="offline-queue-list">
+        {queued.map(item => (
+          <li key={item.id}>
+            <span>
+              <strong>{item.formData.medicineName}</strong> · {item.formData.gender || '—'}, {item.formData.age} years
+              <span className="text-xs text-gray-500"> · queued {formatHistoryDate(item.queuedAt)}</span>
+            </span>
+            <button
+              type="button"
+              className="text-sm text-red-600 hover:underline"
+              disabled={replaying}
+              onClick={() => onRemove(item.id)}
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export type QueuedResultNoticesProps = {
+  notices: QueueNotice[];
+  onOpen: (notice: QueueNotice) => void;
+  onDismiss: (id: string) => void;
+};
+
+export function QueuedResultNotices({ notices, onOpen, onDismiss }: QueuedResultNoticesProps) {
+  if (notices.length === 0) return null;
+
+  return (
+    <div className="queue-notices" aria-live="polite">
+      {notices.map(notice => (
+        <div key={notice.id} className={`queue-notice${notice.recordId ? '' : ' queue-notice-error'}`}>
+          <p className="text-sm">{notice.message}</p>
+          <div className="queue-notice-actions">
+            {notice.recordId && (
+              <button type="button" className="text-sm text-blue-600 hover:underline" onClick={() => onOpen(notice)}>
+                View result
+              </button>
+            )}
+            <button type="button" className="text-sm text-gray-500 hover:underline" onClick={() => onDismiss(notice.id)}>
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import type { AllergyEntry, AllergySeverity, MedicationEntry } from '@/types/prediction';
+
+const EMPTY_ALLERGY: AllergyEntry = { substance: '', reaction: '', severity: 'unknown' };
+const EMPTY_MEDICATION: MedicationEntry = { drug: '', dose: '', frequency: '' };
+
+const SEVERITY_OPTIONS: Array<{ value: AllergySeverity; label: string }> = [
+  { value: 'unknown', label: 'Severity unknown' },
+  { value: 'mild', label: 'Mild' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'severe', label: 'Severe' },
+];
+
+// Replaces the item at `index` with a patched copy
+function patchAt<T>(items: T[], index: number, patch: Partial<T>): T[] {
+  return items.map((item, i) => (i === index ? { ...item, ...patch } : item));
+}
+
+export type AllergyListInputProps = {
+  value: AllergyEntry[];
+  onChange: (value: AllergyEntry[]) => void;
+};
+
+export function AllergyListInput({ value, onChange }: AllergyListInputProps) {
+  return (
+    <fieldset className="form-group repeatable-list">
+      <legend className="form-label">Allergies</legend>
+      {value.map((allergy, index) => (
+        <div key={index} className="repeatable-row">
+          <input
+            type="text"
+            aria-label={`Allergy ${index + 1} substance`}
+            placeholder="Substance, e.g., Penicillin"
+            className="form-input form-input-plain"
+            value={allergy.substance}
+            onChange={(e) => onChange(patchAt(value, index, { substance: e.target.value }))}
+          />
+          <input
+            type="text"
+            aria-label={`Allergy ${index + 1} reaction`}
+            placeholder="Reaction, e.g., Hives"
+            className="form-input form-input-plain"
+            value={allergy.reaction}
+            onChange={(e) => onChange(patchAt(value, index, { reaction: e.target.value }))}
+          />
+          <select
+            aria-label={`Allergy ${index + 1} severity`}
+            className="form-select form-input-plain"
+            value={allergy.severity}
+            onChange={(e) => onChange(patchAt(value, index, { severity: e.target.value as AllergySeverity }))}
+          >
+            {SEVERITY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="repeatable-remove"
+            aria-label={`Remove allergy ${index + 1}`}
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+          >
+            <span className="material-symbols-outlined">delete</span>
+          </button>
+        </div>
+      ))}
+      <button type="button" className="repeatable-add" onClick={() => onChange([...value, EMPTY_ALLERGY])}>
+        <span className="material-symbols-outlined">add</span>
+        Add allergy
+      </button>
+    </fieldset>
+  );
+}
+
+export type MedicationListInputProps = {
+  value: MedicationEntry[];
+  onChange: (value: MedicationEntry[]) => void;
+};
+
+export function MedicationListInput({ value, onChange }: MedicationListInputProps) {
+  return (
+    <fieldset className="form-group repeatable-list">
+      <legend className="form-label">Current Medications</legend>
+      {value.map((medication, index) => (
+        <div key={index} className="repeatable-row">
+          <input
+            type="text"
+            aria-label={`Medication ${index + 1} drug`}
+            placeholder="Drug, e.g., Warfarin"
+            className="form-input form-input-plain"
+            value={medication.drug}
+            onChange={(e) => onChange(patchAt(value, index, { drug: e.target.value }))}
+          />
+          <input
+            type="text"
+            aria-label={`Medication ${index + 1} dose`}
+            placeholder="Dose, e.g., 5 mg"
+            className="form-input form-input-plain"
+            value={medication.dose}
+            onChange={(e) => onChange(patchAt(value, index, { dose: e.target.value }))}
+          />
+          <input
+            type="text"
+            aria-label={`Medication ${index + 1} frequency`}
+            placeholder="Frequency, e.g., once daily"
+            className="form-input form-input-plain"
+            value={medication.frequency}
+            onChange={(e) => onChange(patchAt(value, index, { frequency: e.target.value }))}
+          />
+          <button
+            type="button"
+            className="repeatable-remove"
+            aria-label={`Remove medication ${index + 1}`}
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+          >
+            <span className="material-symbols-outlined">delete</span>
+          </button>
+        </div>
+      ))}
+      <button type="button" className="repeatable-add" onClick={() => onChange([...value, EMPTY_MEDICATION])}>
+        <span className="material-symbols-outlined">add</span>
+        Add medication
+      </button>
+    </fieldset>
+  );
+}
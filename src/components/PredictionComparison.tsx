@@ -0,0 +1,120 @@
+import { comparePredictions, type ComparedRun, type ComparisonRow } from '@/lib/comparison';
+
+export type PredictionComparisonProps = {
+  left: ComparedRun;
+  right: ComparedRun;
+  leftLabel: string;
+  rightLabel: string;
+  onSwap: () => void;
+  onClose: () => void;
+};
+
+const formatDelta = (delta: number, unit: string) => `${delta > 0 ? '+' : ''}${delta}${unit}`;
+
+function ComparisonRows({ rows, leftLabel, rightLabel }: { rows: ComparisonRow[]; leftLabel: string; rightLabel: string }) {
+  return (
+    <table className="pharmacogenetic-table comparison-table">
+      <thead>
+        <tr>
+          <th></th>
+          <th>{leftLabel}</th>
+          <th>{rightLabel}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.label} className={row.changed ? 'comparison-changed' : undefined}>
+            <th scope="row">
+              {row.label}
+              {row.changed && <span className="comparison-changed-badge">Changed</span>}
+            </th>
+            <td>{row.left}</td>
+            <td>{row.right}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function PredictionComparison({ left, right, leftLabel, rightLabel, onSwap, onClose }: PredictionComparisonProps) {
+  const comparison = comparePredictions(left, right);
+  const changedInputs = comparison.inputs.filter(row => row.changed);
+  const { warnings } = comparison;
+
+  return (
+    <div className="prediction-container">
+      <div className="prediction-header">
+        <h2 className="prediction-title">Prediction Comparison</h2>
+        <p className="prediction-subtitle">
+          {changedInputs.length > 0
+            ? `${changedInputs.length} input${changedInputs.length === 1 ? '' : 's'} changed: ${changedInputs.map(row => row.label).join(', ')}`
+            : 'Both runs used identical inputs'}
+        </p>
+      </div>
+
+      {/* Outcome differences */}
+      <div className="data-points-section">
+        <h3 className="data-points-title">Outcome</h3>
+        <ComparisonRows rows={comparison.outcome} leftLabel={leftLabel} rightLabel={rightLabel} />
+        <p className="text-xs text-gray-500 mt-2">
+          Confidence {formatDelta(comparison.confidenceDelta, ' pts')}
+          {comparison.suitabilityDelta !== null && <> · Suitability {formatDelta(comparison.suitabilityDelta, ' pts')}</>}
+          {' '}({rightLabel} vs {leftLabel})
+        </p>
+      </div>
+
+      {/* Warnings */}
+      <div className="data-points-section">
+        <h3 className="data-points-title">Warnings</h3>
+        {warnings.onlyLeft.length + warnings.onlyRight.length + warnings.shared.length === 0 ? (
+          <p className="text-sm text-gray-500">Neither run reported warnings.</p>
+        ) : (
+          <div className="comparison-columns">
+            {[
+              { label: leftLabel, only: warnings.onlyLeft },
+              { label: rightLabel, only: warnings.onlyRight },
+            ].map(side => (
+              <div key={side.label}>
+                <h4 className="comparison-column-title">{side.label}</h4>
+                <ul className="warnings-list">
+                  {side.only.map(warning => (
+                    <li key={warning} className="warning-item comparison-changed">Only here: {warning}</li>
+                  ))}
+                  {warnings.shared.map(warning => (
+                    <li key={warning} className="warning-item">{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Genetic markers */}
+      <div className="data-points-section">
+        <h3 className="data-points-title">Genetic Markers</h3>
+        {comparison.markers.length > 0 ? (
+          <ComparisonRows rows={comparison.markers} leftLabel={leftLabel} rightLabel={rightLabel} />
+        ) : (
+          <p className="text-sm text-gray-500">No genetic markers were returned for either run.</p>
+        )}
+      </div>
+
+      {/* Inputs */}
+      <div className="data-points-section">
+        <h3 className="data-points-title">Patient Inputs</h3>
+        <ComparisonRows rows={comparison.inputs} leftLabel={leftLabel} rightLabel={rightLabel} />
+      </div>
+
+      <div className="action-buttons">
+        <button className="action-btn action-btn-secondary" onClick={onSwap}>
+          Swap Sides
+        </button>
+        <button className="action-btn action-btn-primary" onClick={onClose}>
+          Back
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import type { PredictionRecord } from '@/lib/history';
+
+export type PredictionHistoryProps = {
+  records: PredictionRecord[];
+  error?: string | null;
+  busyId?: string | null;
+  /** Records ticked for comparison; at most two. */
+  selectedIds: string[];
+  onToggleSelect: (record: PredictionRecord) => void;
+  onCompare: () => void;
+  onOpen: (record: PredictionRecord) => void;
+  onRerun: (record: PredictionRecord) => void;
+  onDelete: (record: PredictionRecord) => void;
+  onClose: () => void;
+};
+
+const OUTCOME_COLORS: Record<string, string> = {
+  Effective: 'green',
+  Ineffective: 'orange',
+  'Risky/Adverse': 'red',
+};
+
+export const formatHistoryDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export function PredictionHistory({
+  records,
+  error,
+  busyId,
+  selectedIds,
+  onToggleSelect,
+  onCompare,
+  onOpen,
+  onRerun,
+  onDelete,
+  onClose,
+}: PredictionHistoryProps) {
+  return (
+    <div className="prediction-container">
+      <div className="prediction-header">
+        <h2 className="prediction-title">Prediction History</h2>
+        <p className="prediction-subtitle">
+          {records.length} saved prediction{records.length === 1 ? '' : 's'}, stored in this browser only
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-700 mb-4">History is unavailable: {error}</p>}
+
+      {records.length === 0 && !error ? (
+        <p className="text-sm text-gray-500">No predictions yet. Completed predictions are saved here automatically.</p>
+      ) : (
+        <table className="pharmacogenetic-table">
+          <thead>
+            <tr>
+              <th><span className="sr-only">Compare</span></th>
+              <th>MEDICINE</th>
+              <th>DATE</th>
+              <th>OUTCOME</th>
+              <th>CONFIDENCE</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.map(record => (
+              <tr key={record.id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    aria-label={`Select ${record.result.drugName ?? record.formData.medicineName} prediction for comparison`}
+                    checked={selectedIds.includes(record.id)}
+                    disabled={!selectedIds.includes(record.id) && selectedIds.length >= 2}
+                    onChange={() => onToggleSelect(record)}
+                  />
+                </td>
+                <td>{record.result.drugName ?? record.formData.medicineName}</td>
+                <td>{formatHistoryDate(record.createdAt)}</td>
+                <td>
+                  <span className={`suitability-badge suitability-${OUTCOME_COLORS[record.result.prediction] ?? 'orange'}`}>
+                    {record.result.prediction}
+                  </span>
+                </td>
+                <td>{(record.result.confidence * 100).toFixed(0)}%</td>
+                <td className="history-actions">
+                  <button type="button" className="text-sm text-blue-600 hover:underline" onClick={() => onOpen(record)}>
+                    Open
+                  </button>
+                  <button
+                    type="button"
+                    className="text-sm text-blue-600 hover:underline"
+                    disabled={busyId === record.id}
+                    onClick={() => onRerun(record)}
+                  >
+                    {busyId === record.id ? 'Re-running…' : 'Re-run'}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-sm text-red-700 hover:underline"
+                    aria-label={`Delete ${record.result.drugName ?? record.formData.medicineName} prediction from history`}
+                    onClick={() => onDelete(record)}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="action-buttons">
+        <button className="action-btn action-btn-secondary" onClick={onClose}>
+          Back to Form
+        </button>
+        <button className="action-btn action-btn-primary" disabled={selectedIds.length !== 2} onClick={onCompare}>
+          Compare Selected ({selectedIds.length}/2)
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { MajorInteractionBanner } from '@/components/InteractionAlerts';
+import type { InteractionSeverity, RegimenResult } from '@/lib/regimen';
+import type { PredictionResult } from '@/types/prediction';
+
+export type RegimenResultsProps = {
+  regimen: RegimenResult;
+  onViewDetails: (result: PredictionResult) => void;
+  onEdit: () => void;
+  onReset: () => void;
+};
+
+const SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  major: 'Major',
+  moderate: 'Moderate',
+  minor: 'Minor',
+  unknown: 'Reported',
+};
+
+const RISK_BADGES = {
+  high: { label: 'High Risk', color: 'red' },
+  moderate: { label: 'Moderate Risk', color: 'orange' },
+  low: { label: 'Low Risk', color: 'green' },
+} as const;
+
+export function RegimenResults({ regimen, onViewDetails, onEdit, onReset }: RegimenResultsProps) {
+  const { entries, matrix, summary } = regimen;
+  const badge = RISK_BADGES[summary.level];
+  const missingInteractionData = entries.filter(entry => entry.result && !entry.result.isEnhanced).map(entry => entry.drug);
+
+  return (
+    <div className="prediction-container">
+      <div className="prediction-header">
+        <h2 className="prediction-title">Regimen Response Prediction</h2>
+        <p className="prediction-subtitle">
+          Combined analysis for {entries.length} medicines: {entries.map(entry => entry.drug).join(', ')}
+        </p>
+      </div>
+
+      {/* Each medicine's major interactions with current medications block, as for a single prediction */}
+      {entries.map(entry => (
+        <MajorInteractionBanner
+          key={entry.drug}
+          check={entry.result?.interactionCheck}
+          drugName={entry.drug}
+          onMakeChanges={onEdit}
+        />
+      ))}
+
+      {/* Regimen Risk Summary */}
+      <div className="prediction-summary-section">
+        <h3 className="prediction-summary-title">Regimen Risk Summary</h3>
+        <div className="suitability-assessment-card">
+          <div className="suitability-header">
+            <div className="suitability-status">
+              <span className={`suitability-badge suitability-${badge.color}`}>{badge.label}</span>
+            </div>
+            <div className="suitability-recommendation">
+              {summary.reasons.length > 0 ? (
+                <ul className="warnings-list">
+                  {summary.reasons.map(reason => (
+                    <li key={reason} className="warning-item">{reason}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p>No interactions or adverse responses were predicted for this regimen.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Per-drug predictions */}
+      <div className="data-points-section">
+        <h3 className="data-points-title">Per-Medicine Predictions</h3>
+        <table className="pharmacogenetic-table">
+          <thead>
+            <tr>
+              <th>MEDICINE</th>
+              <th>PREDICTED OUTCOME</th>
+              <th>CONFIDENCE</th>
+              <th>DOSAGE</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.drug}>
+                <td>{entry.drug}</td>
+                {entry.result ? (
+                  <>
+                    <td className="pharmacogenetic-value">{entry.result.prediction}</td>
+                    <td>{(entry.result.confidence * 100).toFixed(0)}%</td>
+                    <td>{entry.result.dosage}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="text-sm text-blue-600 hover:underline"
+                        onClick={() => onViewDetails(entry.result!)}
+                      >
+                        View full report
+                      </button>
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={4} className="text-red-700">Prediction failed: {entry.error}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pairwise Interaction Matrix */}
+      <div className="data-points-section">
+        <h3 className="data-points-title">Drug Interaction Matrix</h3>
+        <div className="overflow-x-auto">
+          <table className="interaction-matrix">
+            <thead>
+              <tr>
+                <th></th>
+                {entries.map(entry => <th key={entry.drug} scope="col">{entry.drug}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((rowEntry, i) => (
+                <tr key={rowEntry.drug}>
+                  <th scope="row">{rowEntry.drug}</th>
+                  {matrix[i].map((cell, j) => (
+                    <td
+                      key={entries[j].drug}
+                      className={i === j ? 'interaction-cell-self' : `interaction-cell-${cell.severity ?? 'none'}`}
+                      title={cell.descriptions.join('\n') || undefined}
+                    >
+                      {i === j ? '—' : cell.severity ? SEVERITY_LABELS[cell.severity] : 'None'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {missingInteractionData.length > 0 && (
+          <p className="text-xs text-gray-500 mt-2">
+            Backend interaction data unavailable for {missingInteractionData.join(', ')} (standard API fallback); only the bundled interaction table was checked.
+          </p>
+        )}
+      </div>
+
+      <div className="action-buttons">
+        <button className="action-btn action-btn-secondary" onClick={onEdit}>
+          Make Changes
+        </button>
+        <button className="action-btn action-btn-primary" onClick={onReset}>
+          New Prediction
+        </button>
+      </div>
+    </div>
+  );
+}
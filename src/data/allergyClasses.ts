@@ -0,0 +1,151 @@
+import type { AllergenClass, CrossSensitivity } from '@/lib/allergy/types';
+
+// Allergen classes and the cross-sensitivities between them, summarised from
+// product-label contraindications and published allergy practice parameters.
+// These group drugs by allergenic structure, which cuts across therapeutic
+// classes: thiazide diuretics carry a sulfonamide group without being
+// antibiotics. Bump the version whenever a class or rule changes so saved
+// predictions record which table screened them.
+export const ALLERGY_CLASSES_VERSION = '2025.1';
+
+export const ALLERGEN_CLASSES: AllergenClass[] = [
+  // Beta-lactams
+  {
+    id: 'penicillins',
+    name: 'Penicillins',
+    members: ['penicillin', 'amoxicillin', 'ampicillin', 'dicloxacillin', 'flucloxacillin', 'piperacillin', 'nafcillin'],
+    terms: ['penicillin', 'penicillins', 'pcn', 'beta-lactam', 'beta lactam'],
+  },
+  {
+    id: 'cephalosporins',
+    name: 'Cephalosporins',
+    members: ['cephalexin', 'cefalexin', 'cefazolin', 'cefuroxime', 'cefdinir', 'ceftriaxone', 'cefepime'],
+    terms: ['cephalosporin', 'cephalosporins'],
+  },
+  {
+    id: 'carbapenems',
+    name: 'Carbapenems',
+    members: ['meropenem', 'imipenem', 'ertapenem'],
+    terms: ['carbapenem', 'carbapenems'],
+  },
+
+  // Sulfonamides
+  {
+    id: 'sulfonamide-antibiotics',
+    name: 'Sulfonamide antibiotics',
+    members: ['sulfamethoxazole', 'sulfadiazine', 'sulfasalazine', 'co-trimoxazole'],
+    terms: ['sulfa', 'sulfa drugs', 'sulfonamide', 'sulfonamides', 'sulphonamide', 'sulphonamides', 'bactrim', 'septra'],
+  },
+  {
+    id: 'sulfonamide-non-antibiotics',
+    name: 'Non-antibiotic sulfonamides',
+    members: ['hydrochlorothiazide', 'chlorthalidone', 'indapamide', 'furosemide', 'bumetanide', 'torsemide', 'acetazolamide', 'celecoxib', 'glipizide', 'glyburide'],
+    terms: ['thiazide', 'thiazides', 'loop diuretic', 'loop diuretics'],
+  },
+
+  // Other antibiotics
+  {
+    id: 'macrolides',
+    name: 'Macrolides',
+    members: ['azithromycin', 'clarithromycin', 'erythromycin'],
+    terms: ['macrolide', 'macrolides'],
+  },
+  {
+    id: 'fluoroquinolones',
+    name: 'Fluoroquinolones',
+    members: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin'],
+    terms: ['quinolone', 'quinolones', 'fluoroquinolone', 'fluoroquinolones'],
+  },
+  {
+    id: 'tetracyclines',
+    name: 'Tetracyclines',
+    members: ['tetracycline', 'doxycycline', 'minocycline'],
+    terms: ['tetracycline', 'tetracyclines'],
+  },
+
+  // Analgesics
+  {
+    id: 'nsaids',
+    name: 'NSAIDs',
+    members: ['aspirin', 'ibuprofen', 'naproxen', 'diclofenac', 'ketorolac', 'indomethacin', 'meloxicam'],
+    terms: ['nsaid', 'nsaids', 'anti-inflammatory', 'anti-inflammatories', 'salicylate', 'salicylates'],
+  },
+  {
+    id: 'opioids',
+    name: 'Opioids',
+    members: ['codeine', 'morphine', 'hydrocodone', 'oxycodone', 'hydromorphone', 'tramadol'],
+    terms: ['opioid', 'opioids', 'opiate', 'opiates'],
+  },
+
+  // Cardiovascular
+  {
+    id: 'ace-inhibitors',
+    name: 'ACE inhibitors',
+    members: ['lisinopril', 'enalapril', 'ramipril', 'captopril', 'benazepril', 'perindopril'],
+    terms: ['ace inhibitor', 'ace inhibitors', 'ace-inhibitor', 'ace-inhibitors'],
+  },
+  {
+    id: 'angiotensin-receptor-blockers',
+    name: 'Angiotensin receptor blockers',
+    members: ['losartan', 'valsartan', 'irbesartan', 'candesartan', 'olmesartan', 'telmisartan'],
+    terms: ['arb', 'arbs', 'angiotensin receptor blocker', 'angiotensin receptor blockers'],
+  },
+  {
+    id: 'statins',
+    name: 'Statins',
+    members: ['atorvastatin', 'simvastatin', 'rosuvastatin', 'pravastatin', 'lovastatin'],
+    terms: ['statin', 'statins'],
+  },
+];
+
+export const CROSS_SENSITIVITIES: CrossSensitivity[] = [
+  {
+    from: 'penicillins',
+    to: 'cephalosporins',
+    confidence: 'low',
+    note: 'Cross-reactivity is about 1–2% overall and is driven mainly by shared R1 side chains (e.g. amoxicillin and cephalexin).',
+    source: 'AAAAI/ACAAI drug allergy practice parameter (2022)',
+  },
+  {
+    from: 'cephalosporins',
+    to: 'penicillins',
+    confidence: 'low',
+    note: 'Cross-reactivity is uncommon and largely limited to agents with a similar side chain.',
+    source: 'AAAAI/ACAAI drug allergy practice parameter (2022)',
+  },
+  {
+    from: 'penicillins',
+    to: 'carbapenems',
+    confidence: 'low',
+    note: 'Cross-reactivity is under 1%; carbapenems can usually be given with monitoring.',
+    source: 'AAAAI/ACAAI drug allergy practice parameter (2022)',
+  },
+  {
+    from: 'sulfonamide-antibiotics',
+    to: 'sulfonamide-non-antibiotics',
+    confidence: 'moderate',
+    note: 'Thiazide and loop diuretics, some sulfonylureas and celecoxib carry a sulfonamide group. True cross-reactivity is uncommon, but several labels list sulfonamide hypersensitivity as a contraindication.',
+    source: 'FDA labels: hydrochlorothiazide, furosemide, celecoxib',
+  },
+  {
+    from: 'nsaids',
+    to: 'nsaids',
+    confidence: 'high',
+    note: 'NSAID hypersensitivity is often COX-1 mediated, so reactions recur across structurally unrelated NSAIDs.',
+    source: 'FDA label: ibuprofen tablets',
+  },
+  {
+    from: 'ace-inhibitors',
+    to: 'angiotensin-receptor-blockers',
+    confidence: 'low',
+    note: 'Angioedema with an ACE inhibitor recurs in a small minority of patients switched to an ARB.',
+    source: 'FDA label: losartan potassium tablets',
+  },
+  {
+    from: 'macrolides',
+    to: 'macrolides',
+    confidence: 'moderate',
+    note: 'Hypersensitivity to one macrolide is listed as a contraindication to the others.',
+    source: 'FDA label: azithromycin tablets',
+  },
+];
@@ -0,0 +1,188 @@
+import type { ConditionDefinition } from '@/lib/conditions/types';
+
+// The subset of ICD-10-CM and SNOMED CT needed by the drug–disease
+// contraindication table, with the everyday phrases clinicians type for each
+// condition. Synonyms are lowercase and matched as whole words; the longest
+// match in an entry wins, so "ckd stage 4" is read as stage 4 and not as CKD.
+export const CONDITION_CODES_VERSION = '2025.1';
+
+export const CONDITION_CODES: ConditionDefinition[] = [
+  // Renal
+  {
+    id: 'ckd',
+    name: 'Chronic kidney disease',
+    icd10: 'N18.9',
+    snomed: '709044004',
+    synonyms: ['ckd', 'chronic kidney disease', 'chronic renal disease', 'kidney disease', 'renal disease', 'renal impairment', 'renal insufficiency'],
+  },
+  {
+    id: 'ckd-4',
+    name: 'Chronic kidney disease, stage 4 (severe)',
+    icd10: 'N18.4',
+    snomed: '431857002',
+    synonyms: ['ckd stage 4', 'ckd 4', 'stage 4 ckd', 'ckd4', 'severe renal impairment', 'severe kidney disease'],
+    implies: ['ckd'],
+  },
+  {
+    id: 'ckd-5',
+    name: 'Chronic kidney disease, stage 5',
+    icd10: 'N18.5',
+    snomed: '433146000',
+    synonyms: ['ckd stage 5', 'ckd 5', 'stage 5 ckd', 'ckd5'],
+    implies: ['ckd'],
+  },
+  {
+    id: 'esrd',
+    name: 'End-stage renal disease',
+    icd10: 'N18.6',
+    snomed: '46177005',
+    synonyms: ['esrd', 'end stage renal disease', 'end-stage renal disease', 'end stage kidney disease', 'kidney failure', 'renal failure', 'dialysis', 'hemodialysis', 'haemodialysis'],
+    implies: ['ckd'],
+  },
+  {
+    id: 'hyperkalemia',
+    name: 'Hyperkalemia',
+    icd10: 'E87.5',
+    snomed: '14140009',
+    synonyms: ['hyperkalemia', 'hyperkalaemia', 'high potassium'],
+  },
+
+  // Gastrointestinal and hepatic
+  {
+    id: 'peptic-ulcer',
+    name: 'Peptic ulcer',
+    icd10: 'K27.9',
+    snomed: '13200003',
+    synonyms: ['peptic ulcer', 'peptic ulcer disease', 'pud', 'stomach ulcer', 'gastric ulcer', 'duodenal ulcer', 'ulcer'],
+  },
+  {
+    id: 'gi-bleed',
+    name: 'Gastrointestinal hemorrhage',
+    icd10: 'K92.2',
+    snomed: '74474003',
+    synonyms: ['gi bleed', 'gi bleeding', 'gastrointestinal bleed', 'gastrointestinal bleeding', 'gastrointestinal hemorrhage', 'gastrointestinal haemorrhage', 'upper gi bleed'],
+  },
+  {
+    id: 'liver-disease',
+    name: 'Liver disease',
+    icd10: 'K76.9',
+    snomed: '235856003',
+    synonyms: ['liver disease', 'hepatic disease', 'hepatic impairment', 'liver impairment', 'hepatitis', 'fatty liver', 'nafld'],
+  },
+  {
+    id: 'cirrhosis',
+    name: 'Cirrhosis of liver',
+    icd10: 'K74.60',
+    snomed: '19943007',
+    synonyms: ['cirrhosis', 'liver cirrhosis', 'hepatic cirrhosis'],
+    implies: ['liver-disease'],
+  },
+  {
+    id: 'alcohol-use-disorder',
+    name: 'Alcohol use disorder',
+    icd10: 'F10.20',
+    snomed: '7200002',
+    synonyms: ['alcohol use disorder', 'alcoholism', 'alcohol dependence', 'alcohol abuse', 'heavy drinking'],
+  },
+
+  // Respiratory
+  {
+    id: 'asthma',
+    name: 'Asthma',
+    icd10: 'J45.909',
+    snomed: '195967001',
+    synonyms: ['asthma', 'asthmatic', 'reactive airway disease', 'bronchial asthma'],
+  },
+  {
+    id: 'copd',
+    name: 'Chronic obstructive pulmonary disease',
+    icd10: 'J44.9',
+    snomed: '13645005',
+    synonyms: ['copd', 'chronic obstructive pulmonary disease', 'emphysema', 'chronic bronchitis'],
+  },
+
+  // Cardiovascular
+  {
+    id: 'hypertension',
+    name: 'Hypertension',
+    icd10: 'I10',
+    snomed: '38341003',
+    synonyms: ['hypertension', 'high blood pressure', 'htn', 'essential hypertension'],
+  },
+  {
+    id: 'heart-failure',
+    name: 'Heart failure',
+    icd10: 'I50.9',
+    snomed: '84114007',
+    synonyms: ['heart failure', 'chf', 'congestive heart failure', 'hfref', 'hfpef', 'cardiac failure'],
+  },
+  {
+    id: 'bradycardia',
+    name: 'Bradycardia',
+    icd10: 'R00.1',
+    snomed: '48867003',
+    synonyms: ['bradycardia', 'slow heart rate', 'sick sinus syndrome'],
+  },
+  {
+    id: 'av-block',
+    name: 'Atrioventricular block',
+    icd10: 'I44.30',
+    snomed: '233917008',
+    synonyms: ['av block', 'atrioventricular block', 'heart block', 'second degree heart block', 'third degree heart block', 'complete heart block'],
+  },
+  {
+    id: 'angioedema',
+    name: 'Angioedema',
+    icd10: 'T78.3XXA',
+    snomed: '41291007',
+    synonyms: ['angioedema', 'angio-oedema', 'angioneurotic edema', 'hereditary angioedema'],
+  },
+
+  // Endocrine
+  {
+    id: 'type-2-diabetes',
+    name: 'Type 2 diabetes mellitus',
+    icd10: 'E11.9',
+    snomed: '44054006',
+    synonyms: ['type 2 diabetes', 'type ii diabetes', 't2dm', 'diabetes mellitus type 2', 'diabetes', 'diabetes mellitus', 'dm'],
+  },
+  {
+    id: 'type-1-diabetes',
+    name: 'Type 1 diabetes mellitus',
+    icd10: 'E10.9',
+    snomed: '46635009',
+    synonyms: ['type 1 diabetes', 'type i diabetes', 't1dm', 'diabetes mellitus type 1', 'iddm'],
+  },
+  {
+    id: 'hypothyroidism',
+    name: 'Hypothyroidism',
+    icd10: 'E03.9',
+    snomed: '40930008',
+    synonyms: ['hypothyroidism', 'underactive thyroid', 'hashimoto', "hashimoto's thyroiditis"],
+  },
+
+  // Neurological and psychiatric
+  {
+    id: 'epilepsy',
+    name: 'Epilepsy',
+    icd10: 'G40.909',
+    snomed: '84757009',
+    synonyms: ['epilepsy', 'seizure disorder', 'seizures', 'epileptic'],
+  },
+  {
+    id: 'depression',
+    name: 'Depression',
+    icd10: 'F32.A',
+    snomed: '35489007',
+    synonyms: ['depression', 'major depressive disorder', 'mdd', 'depressive disorder'],
+  },
+
+  // Other
+  {
+    id: 'pregnancy',
+    name: 'Pregnancy',
+    icd10: 'Z33.1',
+    snomed: '77386006',
+    synonyms: ['pregnancy', 'pregnant'],
+  },
+];
@@ -0,0 +1,301 @@
+import { DosingRule, FREQUENCIES } from '@/lib/dosing/types';
+
+const { daily, bid, tid, qid, q4h } = FREQUENCIES;
+
+// Usual starting doses and adjustments summarised from US product labels.
+// Keys match the lowercase generic names in drugKnowledgeBase.json. Intended as
+// decision support only; the prescriber remains responsible for the dose.
+export const dosingRules: DosingRule[] = [
+  // Cardiovascular Medications
+  {
+    drug: 'lisinopril',
+    unit: 'mg',
+    adult: { amount: 10, frequency: daily, maxDaily: 80 },
+    pediatric: { minAgeYears: 6, perKg: 0.07, frequency: daily, maxSingle: 5, maxDaily: 40 },
+    renal: [
+      { belowCrCl: 30, amount: 5, maxDaily: 40, note: 'start at 5 mg once daily.' },
+      { belowCrCl: 10, amount: 2.5, maxDaily: 40, note: 'start at 2.5 mg once daily.' },
+    ],
+    source: 'FDA label: lisinopril tablets',
+  },
+  {
+    drug: 'enalapril',
+    unit: 'mg',
+    adult: { amount: 5, frequency: daily, maxDaily: 40 },
+    pediatric: { perKg: 0.08, frequency: daily, maxSingle: 5, maxDaily: 40 },
+    renal: [{ belowCrCl: 30, amount: 2.5, note: 'start at 2.5 mg once daily.' }],
+    source: 'FDA label: enalapril maleate tablets',
+  },
+  {
+    drug: 'losartan',
+    unit: 'mg',
+    adult: { amount: 50, frequency: daily, maxDaily: 100 },
+    pediatric: { minAgeYears: 6, perKg: 0.7, frequency: daily, maxSingle: 50, maxDaily: 100 },
+    hepatic: {
+      mild: { amount: 25, note: 'start at 25 mg once daily.' },
+      moderate: { amount: 25, note: 'start at 25 mg once daily.' },
+      severe: { avoid: true, note: 'not studied; avoid.' },
+    },
+    source: 'FDA label: losartan potassium tablets',
+  },
+  {
+    drug: 'metoprolol',
+    unit: 'mg',
+    adult: { amount: 50, frequency: bid, maxDaily: 400 },
+    hepatic: {
+      moderate: { factor: 0.5, note: 'halve the starting dose and titrate slowly.' },
+      severe: { factor: 0.5, note: 'halve the starting dose and titrate slowly.' },
+    },
+    source: 'FDA label: metoprolol tartrate tablets',
+  },
+  {
+    drug: 'amlodipine',
+    unit: 'mg',
+    adult: { amount: 5, frequency: daily, maxDaily: 10 },
+    pediatric: { minAgeYears: 6, amount: 2.5, frequency: daily, maxDaily: 5 },
+    hepatic: {
+      mild: { amount: 2.5, note: 'start at 2.5 mg once daily.' },
+      moderate: { amount: 2.5, note: 'start at 2.5 mg once daily.' },
+      severe: { amount: 2.5, note: 'start at 2.5 mg once daily.' },
+    },
+    source: 'FDA label: amlodipine besylate tablets',
+  },
+  {
+    drug: 'warfarin',
+    unit: 'mg',
+    adult: { amount: 5, frequency: daily, maxDaily: 10 },
+    pediatric: { perKg: 0.2, frequency: daily, maxSingle: 10, maxDaily: 10 },
+    hepatic: {
+      mild: { factor: 0.5, note: 'use a lower initiation dose; INR response is enhanced.' },
+      moderate: { factor: 0.5, note: 'use a lower initiation dose; INR response is enhanced.' },
+      severe: { avoid: true, note: 'baseline coagulopathy; avoid unless specialist-directed.' },
+    },
+    source: 'FDA label: warfarin sodium tablets',
+  },
+
+  // Diabetes Medications
+  {
+    drug: 'metformin',
+    unit: 'mg',
+    adult: { amount: 500, frequency: bid, maxDaily: 2550 },
+    pediatric: { minAgeYears: 10, amount: 500, frequency: bid, maxDaily: 2000 },
+    renal: [
+      { belowCrCl: 45, avoidInitiation: true, maxDaily: 1000, note: 'do not initiate; if already taking, limit to 1000 mg/day.' },
+      { belowCrCl: 30, avoid: true, note: 'contraindicated.' },
+    ],
+    hepatic: {
+      moderate: { avoid: true, note: 'risk of lactic acidosis; avoid.' },
+      severe: { avoid: true, note: 'risk of lactic acidosis; avoid.' },
+    },
+    source: 'FDA label: metformin hydrochloride tablets',
+  },
+  {
+    drug: 'insulin',
+    unit: 'units',
+    adult: { perKg: 0.5, frequency: daily, maxDaily: 200 },
+    pediatric: { perKg: 0.5, frequency: daily, maxDaily: 100 },
+    renal: [{ belowCrCl: 30, factor: 0.75, note: 'reduce the total daily dose by 25%.' }],
+    hepatic: {
+      moderate: { factor: 0.75, note: 'reduce the total daily dose by 25%.' },
+      severe: { factor: 0.75, note: 'reduce the total daily dose by 25%.' },
+    },
+    source: 'ADA Standards of Care: starting total daily insulin dose',
+  },
+  {
+    drug: 'glipizide',
+    unit: 'mg',
+    adult: { amount: 5, frequency: daily, maxDaily: 40 },
+    renal: [{ belowCrCl: 50, amount: 2.5, note: 'start at 2.5 mg once daily.' }],
+    hepatic: {
+      mild: { amount: 2.5, note: 'start at 2.5 mg once daily.' },
+      moderate: { amount: 2.5, note: 'start at 2.5 mg once daily.' },
+      severe: { amount: 2.5, note: 'start at 2.5 mg once daily.' },
+    },
+    source: 'FDA label: glipizide tablets',
+  },
+
+  // Pain Relief Medications
+  {
+    drug: 'ibuprofen',
+    unit: 'mg',
+    adult: { amount: 400, frequency: tid, maxDaily: 3200 },
+    pediatric: { perKg: 10, frequency: tid, maxSingle: 400, maxDaily: 2400, maxDailyPerKg: 40 },
+    renal: [{ belowCrCl: 30, avoid: true, note: 'NSAIDs are not recommended in advanced renal disease.' }],
+    hepatic: {
+      severe: { avoid: true, note: 'avoid in severe hepatic impairment.' },
+    },
+    source: 'FDA label: ibuprofen tablets',
+  },
+  {
+    drug: 'paracetamol',
+    aliases: ['acetaminophen'],
+    unit: 'mg',
+    adult: { amount: 1000, frequency: qid, maxDaily: 4000 },
+    pediatric: { perKg: 15, frequency: qid, maxSingle: 1000, maxDaily: 4000, maxDailyPerKg: 75 },
+    renal: [{ belowCrCl: 10, frequency: tid, note: 'extend the interval to every 8 hours.' }],
+    hepatic: {
+      mild: { maxDaily: 2000, note: 'limit to 2 g/day.' },
+      moderate: { maxDaily: 2000, note: 'limit to 2 g/day.' },
+      severe: { avoid: true, note: 'contraindicated in severe active liver disease.' },
+    },
+    source: 'FDA label: acetaminophen injection / OTC monograph',
+  },
+  {
+    drug: 'aspirin',
+    unit: 'mg',
+    adult: { amount: 500, frequency: qid, maxDaily: 4000 },
+    pediatric: { minAgeYears: 16, amount: 500, frequency: qid, maxDaily: 4000 },
+    renal: [{ belowCrCl: 10, avoid: true, note: 'avoid in severe renal failure.' }],
+    hepatic: {
+      severe: { avoid: true, note: 'avoid in severe hepatic impairment.' },
+    },
+    source: 'OTC monograph: aspirin (analgesic dosing); under 16 years risk of Reye syndrome',
+  },
+  {
+    drug: 'tramadol',
+    unit: 'mg',
+    adult: { amount: 50, frequency: qid, maxDaily: 400 },
+    pediatric: { minAgeYears: 12, amount: 50, frequency: qid, maxDaily: 400 },
+    renal: [{ belowCrCl: 30, frequency: bid, maxDaily: 200, note: 'every 12 hours, maximum 200 mg/day.' }],
+    hepatic: {
+      severe: { frequency: bid, maxDaily: 100, note: '50 mg every 12 hours.' },
+    },
+    source: 'FDA label: tramadol hydrochloride tablets',
+  },
+
+  // Cholesterol Medications
+  {
+    drug: 'atorvastatin',
+    unit: 'mg',
+    adult: { amount: 20, frequency: daily, maxDaily: 80 },
+    pediatric: { minAgeYears: 10, amount: 10, frequency: daily, maxDaily: 20 },
+    hepatic: {
+      moderate: { avoid: true, note: 'contraindicated in active liver disease.' },
+      severe: { avoid: true, note: 'contraindicated in active liver disease.' },
+    },
+    source: 'FDA label: atorvastatin calcium tablets',
+  },
+  {
+    drug: 'simvastatin',
+    unit: 'mg',
+    adult: { amount: 20, frequency: daily, maxDaily: 40 },
+    pediatric: { minAgeYears: 10, amount: 10, frequency: daily, maxDaily: 40 },
+    renal: [{ belowCrCl: 30, amount: 5, note: 'start at 5 mg once daily.' }],
+    hepatic: {
+      moderate: { avoid: true, note: 'contraindicated in active liver disease.' },
+      severe: { avoid: true, note: 'contraindicated in active liver disease.' },
+    },
+    source: 'FDA label: simvastatin tablets',
+  },
+  {
+    drug: 'rosuvastatin',
+    unit: 'mg',
+    adult: { amount: 10, frequency: daily, maxDaily: 40 },
+    pediatric: { minAgeYears: 8, amount: 5, frequency: daily, maxDaily: 20 },
+    renal: [{ belowCrCl: 30, amount: 5, maxDaily: 10, note: 'start at 5 mg, maximum 10 mg/day.' }],
+    hepatic: {
+      moderate: { avoid: true, note: 'contraindicated in active liver disease.' },
+      severe: { avoid: true, note: 'contraindicated in active liver disease.' },
+    },
+    source: 'FDA label: rosuvastatin calcium tablets',
+  },
+
+  // Gastrointestinal Medications
+  {
+    drug: 'omeprazole',
+    unit: 'mg',
+    adult: { amount: 20, frequency: daily, maxDaily: 40 },
+    pediatric: { minAgeYears: 1, perKg: 1, frequency: daily, maxSingle: 20, maxDaily: 20 },
+    hepatic: {
+      mild: { maxDaily: 10, note: 'limit to 10 mg/day.' },
+      moderate: { maxDaily: 10, note: 'limit to 10 mg/day.' },
+      severe: { maxDaily: 10, note: 'limit to 10 mg/day.' },
+    },
+    source: 'FDA label: omeprazole delayed-release capsules',
+  },
+  {
+    drug: 'lansoprazole',
+    unit: 'mg',
+    adult: { amount: 30, frequency: daily, maxDaily: 30 },
+    pediatric: { minAgeYears: 1, perKg: 1, frequency: daily, maxSingle: 30, maxDaily: 30 },
+    hepatic: {
+      severe: { amount: 15, note: 'reduce to 15 mg once daily.' },
+    },
+    source: 'FDA label: lansoprazole delayed-release capsules',
+  },
+
+  // Antibiotics
+  {
+    drug: 'amoxicillin',
+    unit: 'mg',
+    adult: { amount: 500, frequency: tid, maxDaily: 3000 },
+    pediatric: { perKg: 13.3, frequency: tid, maxSingle: 500, maxDaily: 1500 },
+    renal: [
+      { belowCrCl: 30, frequency: bid, note: 'give every 12 hours.' },
+      { belowCrCl: 10, frequency: daily, note: 'give every 24 hours.' },
+    ],
+    source: 'FDA label: amoxicillin capsules',
+  },
+  {
+    drug: 'azithromycin',
+    unit: 'mg',
+    adult: { amount: 500, frequency: daily, maxDaily: 500 },
+    pediatric: { perKg: 10, frequency: daily, maxSingle: 500, maxDaily: 500 },
+    hepatic: {
+      severe: { avoid: true, note: 'avoid; hepatically eliminated.' },
+    },
+    source: 'FDA label: azithromycin tablets (3-day regimen)',
+  },
+
+  // Mental Health Medications
+  {
+    drug: 'sertraline',
+    unit: 'mg',
+    adult: { amount: 50, frequency: daily, maxDaily: 200 },
+    pediatric: { minAgeYears: 6, amount: 25, frequency: daily, maxDaily: 200 },
+    hepatic: {
+      mild: { factor: 0.5, note: 'use a lower or less frequent dose.' },
+      moderate: { avoid: true, note: 'not recommended.' },
+      severe: { avoid: true, note: 'not recommended.' },
+    },
+    source: 'FDA label: sertraline hydrochloride tablets',
+  },
+  {
+    drug: 'fluoxetine',
+    unit: 'mg',
+    adult: { amount: 20, frequency: daily, maxDaily: 80 },
+    pediatric: { minAgeYears: 8, amount: 10, frequency: daily, maxDaily: 20 },
+    hepatic: {
+      mild: { factor: 0.5, note: 'use a lower or less frequent dose.' },
+      moderate: { factor: 0.5, note: 'use a lower or less frequent dose.' },
+      severe: { factor: 0.5, note: 'use a lower or less frequent dose.' },
+    },
+    source: 'FDA label: fluoxetine capsules',
+  },
+
+  // Respiratory Medications
+  {
+    drug: 'albuterol',
+    aliases: ['salbutamol'],
+    unit: 'mcg',
+    adult: { amount: 180, frequency: q4h, maxDaily: 1080 },
+    pediatric: { minAgeYears: 4, amount: 180, frequency: q4h, maxDaily: 1080 },
+    source: 'FDA label: albuterol sulfate inhalation aerosol (2 inhalations per dose)',
+  },
+  {
+    drug: 'prednisone',
+    unit: 'mg',
+    adult: { amount: 20, frequency: daily, maxDaily: 60 },
+    pediatric: { perKg: 1, frequency: daily, maxSingle: 60, maxDaily: 60 },
+    source: 'FDA label: prednisone tablets',
+  },
+
+  // Thyroid Medications
+  {
+    drug: 'levothyroxine',
+    unit: 'mcg',
+    adult: { perKg: 1.6, frequency: daily, maxDaily: 300 },
+    pediatric: { perKg: 2, frequency: daily, maxDaily: 200 },
+    source: 'FDA label: levothyroxine sodium tablets (full replacement dose)',
+  },
+];
@@ -0,0 +1,210 @@
+import type { ContraindicationRule } from '@/lib/conditions/types';
+
+// Drug–disease contraindications and cautions summarised from the
+// Contraindications and Warnings sections of US product labels. Drugs are
+// generic names or knowledge-base classes ("class:nsaid"); conditions are ids
+// from src/data/conditionCodes.ts. Bump the version whenever a rule is added
+// or changed so saved predictions record which table checked them.
+export const CONTRAINDICATIONS_VERSION = '2025.1';
+
+export const DRUG_DISEASE_CONTRAINDICATIONS: ContraindicationRule[] = [
+  // NSAIDs
+  {
+    drugs: ['class:nsaid'],
+    conditions: ['ckd-4', 'ckd-5', 'esrd'],
+    level: 'contraindicated',
+    rationale: 'NSAIDs reduce renal prostaglandin-dependent blood flow and can precipitate acute kidney injury in advanced renal disease.',
+    recommendation: 'Avoid. Use paracetamol or a non-NSAID analgesic.',
+    source: 'FDA label: ibuprofen tablets',
+  },
+  {
+    drugs: ['class:nsaid'],
+    conditions: ['ckd'],
+    level: 'caution',
+    rationale: 'NSAIDs can worsen renal function and cause fluid retention and hyperkalaemia in chronic kidney disease.',
+    recommendation: 'Prefer an alternative; if used, give the lowest dose for the shortest time and monitor renal function.',
+    source: 'FDA label: ibuprofen tablets',
+  },
+  {
+    drugs: ['class:nsaid'],
+    conditions: ['peptic-ulcer', 'gi-bleed'],
+    level: 'contraindicated',
+    rationale: 'NSAIDs inhibit protective gastric prostaglandins and platelet function, with a high risk of recurrent ulceration and bleeding.',
+    recommendation: 'Avoid. If an anti-inflammatory is essential, seek specialist advice and add a proton pump inhibitor.',
+    source: 'FDA label: ibuprofen tablets',
+  },
+  {
+    drugs: ['class:nsaid'],
+    conditions: ['heart-failure'],
+    level: 'caution',
+    rationale: 'NSAIDs cause sodium and fluid retention and can precipitate decompensation.',
+    recommendation: 'Avoid in severe heart failure; otherwise monitor weight and symptoms of fluid overload.',
+    source: 'FDA label: ibuprofen tablets',
+  },
+  {
+    drugs: ['class:nsaid'],
+    conditions: ['asthma'],
+    level: 'caution',
+    rationale: 'Aspirin-exacerbated respiratory disease causes bronchospasm with aspirin and other NSAIDs.',
+    recommendation: 'Ask about previous NSAID-induced wheeze; avoid if present.',
+    source: 'FDA label: ibuprofen tablets',
+  },
+
+  // Beta-blockers
+  {
+    drugs: ['class:beta-blocker'],
+    conditions: ['asthma'],
+    level: 'contraindicated',
+    rationale: 'Beta-blockade can provoke severe bronchospasm; cardioselectivity is relative and lost at higher doses.',
+    recommendation: 'Avoid. If a beta-blocker is essential, use a cardioselective agent at the lowest dose under specialist supervision.',
+    source: 'FDA label: metoprolol tartrate tablets',
+  },
+  {
+    drugs: ['class:beta-blocker'],
+    conditions: ['copd'],
+    level: 'caution',
+    rationale: 'Beta-blockers may reduce FEV1 and blunt the response to beta-2 agonists.',
+    recommendation: 'Cardioselective agents are generally tolerated; start low and review respiratory symptoms.',
+    source: 'FDA label: metoprolol tartrate tablets',
+  },
+  {
+    drugs: ['class:beta-blocker'],
+    conditions: ['bradycardia', 'av-block'],
+    level: 'contraindicated',
+    rationale: 'Beta-blockers slow sinus rate and AV conduction and can cause symptomatic bradycardia or complete heart block.',
+    recommendation: 'Avoid unless a functioning pacemaker is in place.',
+    source: 'FDA label: metoprolol tartrate tablets',
+  },
+
+  // Antidiabetics
+  {
+    drugs: ['metformin'],
+    conditions: ['ckd-4', 'ckd-5', 'esrd'],
+    level: 'contraindicated',
+    rationale: 'Metformin is renally cleared and accumulates when eGFR is below 30 mL/min/1.73 m², risking lactic acidosis.',
+    recommendation: 'Do not use. Choose an agent suitable for severe renal impairment.',
+    source: 'FDA label: metformin hydrochloride tablets',
+  },
+  {
+    drugs: ['metformin'],
+    conditions: ['ckd'],
+    level: 'caution',
+    rationale: 'Metformin clearance falls with renal function.',
+    recommendation: 'Check eGFR before starting; do not start if eGFR is 30–45 and reassess the benefit if it falls below 45.',
+    source: 'FDA label: metformin hydrochloride tablets',
+  },
+  {
+    drugs: ['metformin'],
+    conditions: ['liver-disease', 'alcohol-use-disorder'],
+    level: 'caution',
+    rationale: 'Impaired hepatic lactate clearance and alcohol both increase the risk of metformin-associated lactic acidosis.',
+    recommendation: 'Generally avoid in hepatic impairment; counsel against excessive alcohol intake.',
+    source: 'FDA label: metformin hydrochloride tablets',
+  },
+
+  // Renin–angiotensin system
+  {
+    drugs: ['class:ace-inhibitor', 'class:arb'],
+    conditions: ['pregnancy'],
+    level: 'contraindicated',
+    rationale: 'Drugs acting on the renin–angiotensin system cause fetal renal injury and death in the second and third trimesters.',
+    recommendation: 'Stop as soon as pregnancy is detected and switch to an antihypertensive suitable in pregnancy.',
+    source: 'FDA label: lisinopril tablets (boxed warning)',
+  },
+  {
+    drugs: ['class:ace-inhibitor'],
+    conditions: ['angioedema'],
+    level: 'contraindicated',
+    rationale: 'ACE inhibitors block bradykinin breakdown; patients with prior or hereditary angioedema are at high risk of recurrence.',
+    recommendation: 'Do not use. Consider a different antihypertensive class.',
+    source: 'FDA label: lisinopril tablets',
+  },
+  {
+    drugs: ['class:ace-inhibitor', 'class:arb'],
+    conditions: ['hyperkalemia'],
+    level: 'caution',
+    rationale: 'Reduced aldosterone secretion raises serum potassium further.',
+    recommendation: 'Correct potassium first and recheck within 1–2 weeks of starting.',
+    source: 'FDA label: losartan potassium tablets',
+  },
+
+  // Lipid-lowering
+  {
+    drugs: ['class:statin'],
+    conditions: ['pregnancy'],
+    level: 'contraindicated',
+    rationale: 'Cholesterol synthesis is needed for fetal development, and there is no benefit from lipid lowering during pregnancy.',
+    recommendation: 'Stop the statin for the duration of the pregnancy.',
+    source: 'FDA label: atorvastatin calcium tablets',
+  },
+  {
+    drugs: ['class:statin'],
+    conditions: ['liver-disease', 'cirrhosis'],
+    level: 'caution',
+    rationale: 'Statins are contraindicated in acute liver failure or decompensated cirrhosis and can raise transaminases.',
+    recommendation: 'Check liver enzymes before starting; avoid in decompensated disease.',
+    source: 'FDA label: atorvastatin calcium tablets',
+  },
+
+  // Anticoagulants
+  {
+    drugs: ['warfarin'],
+    conditions: ['pregnancy'],
+    level: 'contraindicated',
+    rationale: 'Warfarin crosses the placenta and causes embryopathy and fetal bleeding.',
+    recommendation: 'Switch to low-molecular-weight heparin.',
+    source: 'FDA label: warfarin sodium tablets',
+  },
+  {
+    drugs: ['warfarin'],
+    conditions: ['peptic-ulcer', 'gi-bleed'],
+    level: 'contraindicated',
+    rationale: 'Active ulceration or recent gastrointestinal bleeding carries a high risk of major haemorrhage on anticoagulation.',
+    recommendation: 'Do not start until the bleeding source is treated; seek specialist advice.',
+    source: 'FDA label: warfarin sodium tablets',
+  },
+
+  // Corticosteroids
+  {
+    drugs: ['class:corticosteroid'],
+    conditions: ['type-2-diabetes', 'type-1-diabetes'],
+    level: 'caution',
+    rationale: 'Corticosteroids raise blood glucose, often sharply in the afternoon and evening.',
+    recommendation: 'Monitor glucose during the course and adjust antidiabetic treatment.',
+    source: 'FDA label: prednisone tablets',
+  },
+  {
+    drugs: ['class:corticosteroid'],
+    conditions: ['peptic-ulcer'],
+    level: 'caution',
+    rationale: 'Corticosteroids may delay ulcer healing and mask perforation.',
+    recommendation: 'Use with gastric protection, particularly alongside NSAIDs.',
+    source: 'FDA label: prednisone tablets',
+  },
+
+  // Analgesics
+  {
+    drugs: ['tramadol'],
+    conditions: ['epilepsy'],
+    level: 'caution',
+    rationale: 'Tramadol lowers the seizure threshold, even at recommended doses.',
+    recommendation: 'Prefer another analgesic in patients with epilepsy or a history of seizures.',
+    source: 'FDA label: tramadol hydrochloride tablets',
+  },
+  {
+    drugs: ['class:opioid-analgesic'],
+    conditions: ['copd', 'asthma'],
+    level: 'caution',
+    rationale: 'Opioids depress respiratory drive, which is dangerous with limited respiratory reserve.',
+    recommendation: 'Use the lowest effective dose and monitor for respiratory depression; avoid in acute severe asthma.',
+    source: 'FDA label: tramadol hydrochloride tablets',
+  },
+  {
+    drugs: ['paracetamol'],
+    conditions: ['liver-disease', 'alcohol-use-disorder'],
+    level: 'caution',
+    rationale: 'Reduced glutathione stores increase the risk of paracetamol hepatotoxicity.',
+    recommendation: 'Limit to 2 g per day and avoid prolonged use.',
+    source: 'FDA label: acetaminophen tablets',
+  },
+];
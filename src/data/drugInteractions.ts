@@ -0,0 +1,146 @@
+import type { InteractionRule } from '@/lib/interactions/types';
+
+// Clinically significant drug–drug interactions summarised from the Drug
+// Interactions sections of US product labels. Subjects are generic names or
+// knowledge-base class ids (see src/data/drugKnowledgeBase.json), so brand
+// names and unlisted class members resolve too. Bump the version whenever a
+// rule is added or changed so saved predictions record which table checked them.
+export const DRUG_INTERACTIONS_VERSION = '2025.1';
+
+export const DRUG_INTERACTIONS: InteractionRule[] = [
+  // Anticoagulants
+  {
+    between: ['warfarin', 'class:nsaid'],
+    severity: 'major',
+    mechanism: 'NSAIDs inhibit platelet function and can cause gastrointestinal ulceration, adding to the anticoagulant effect of warfarin.',
+    management: 'Avoid the combination. If an NSAID is unavoidable, use the lowest dose for the shortest time with gastric protection and monitor INR and for bleeding.',
+    source: 'FDA label: warfarin sodium tablets',
+  },
+  {
+    between: ['warfarin', 'class:ssri'],
+    severity: 'moderate',
+    mechanism: 'SSRIs deplete platelet serotonin and impair aggregation; fluoxetine also inhibits CYP2C9, raising warfarin levels.',
+    management: 'Monitor INR when starting or stopping the SSRI and watch for signs of bleeding.',
+    source: 'FDA label: warfarin sodium tablets',
+  },
+  {
+    between: ['warfarin', 'paracetamol'],
+    severity: 'moderate',
+    mechanism: 'Regular paracetamol above 2 g/day can raise the INR, possibly by interfering with vitamin K-dependent clotting factor synthesis.',
+    management: 'Occasional doses are fine. For regular use, keep to the lowest effective dose and check INR within a week.',
+    source: 'FDA label: warfarin sodium tablets',
+  },
+  {
+    between: ['warfarin', 'azithromycin'],
+    severity: 'moderate',
+    mechanism: 'Increased anticoagulant effect has been reported, possibly from reduced vitamin K production by gut flora.',
+    management: 'Monitor INR during and shortly after the antibiotic course.',
+    source: 'FDA label: azithromycin tablets',
+  },
+  {
+    between: ['warfarin', 'levothyroxine'],
+    severity: 'moderate',
+    mechanism: 'Correcting hypothyroidism speeds the breakdown of clotting factors, increasing the response to warfarin.',
+    management: 'Monitor INR when levothyroxine is started or the dose changes; the warfarin dose may need to be reduced.',
+    source: 'FDA label: levothyroxine sodium tablets',
+  },
+  {
+    between: ['clopidogrel', 'omeprazole'],
+    severity: 'moderate',
+    mechanism: 'Omeprazole inhibits CYP2C19, reducing formation of the active metabolite of clopidogrel and its antiplatelet effect.',
+    management: 'Avoid omeprazole and esomeprazole; use pantoprazole if acid suppression is needed.',
+    source: 'FDA label: clopidogrel tablets',
+  },
+
+  // Renin–angiotensin system
+  {
+    between: ['class:ace-inhibitor', 'class:arb'],
+    severity: 'major',
+    mechanism: 'Dual renin–angiotensin blockade increases the risk of hyperkalaemia, hypotension and acute kidney injury without added benefit.',
+    management: 'Avoid the combination. Use one agent and monitor potassium and renal function.',
+    source: 'FDA label: lisinopril tablets',
+  },
+  {
+    between: ['class:ace-inhibitor', 'class:nsaid'],
+    severity: 'moderate',
+    mechanism: 'NSAIDs reduce renal prostaglandins, blunting the antihypertensive effect and risking renal impairment, especially in older or volume-depleted patients.',
+    management: 'Prefer paracetamol for pain. If an NSAID is needed, monitor blood pressure, renal function and potassium.',
+    source: 'FDA label: lisinopril tablets',
+  },
+  {
+    between: ['class:arb', 'class:nsaid'],
+    severity: 'moderate',
+    mechanism: 'NSAIDs reduce renal prostaglandins, blunting the antihypertensive effect and risking renal impairment, especially in older or volume-depleted patients.',
+    management: 'Prefer paracetamol for pain. If an NSAID is needed, monitor blood pressure, renal function and potassium.',
+    source: 'FDA label: losartan potassium tablets',
+  },
+
+  // Cardiovascular
+  {
+    between: ['simvastatin', 'amlodipine'],
+    severity: 'moderate',
+    mechanism: 'Amlodipine weakly inhibits CYP3A4, increasing simvastatin exposure and the risk of myopathy.',
+    management: 'Do not exceed simvastatin 20 mg daily, or switch to a statin not metabolised by CYP3A4.',
+    source: 'FDA label: simvastatin tablets',
+  },
+  {
+    between: ['metoprolol', 'fluoxetine'],
+    severity: 'moderate',
+    mechanism: 'Fluoxetine strongly inhibits CYP2D6, raising metoprolol levels and the risk of bradycardia and hypotension.',
+    management: 'Monitor heart rate and blood pressure; a lower metoprolol dose may be needed.',
+    source: 'FDA label: metoprolol tartrate tablets',
+  },
+  {
+    between: ['class:beta-blocker', 'class:bronchodilator'],
+    severity: 'moderate',
+    mechanism: 'Beta-blockers antagonise beta-2 agonist bronchodilation; even cardioselective agents lose selectivity at higher doses.',
+    management: 'Use a cardioselective beta-blocker at the lowest dose in patients with asthma or COPD and review bronchodilator response.',
+    source: 'FDA label: albuterol sulfate inhalation aerosol',
+  },
+  {
+    between: ['class:beta-blocker', 'insulin'],
+    severity: 'moderate',
+    mechanism: 'Beta-blockers mask the tremor and tachycardia of hypoglycaemia and can delay glucose recovery.',
+    management: 'Counsel the patient that sweating may be the only warning sign and monitor blood glucose more often.',
+    source: 'FDA label: metoprolol tartrate tablets',
+  },
+
+  // Analgesics
+  {
+    between: ['aspirin', 'ibuprofen'],
+    severity: 'moderate',
+    mechanism: 'Ibuprofen competes for the platelet COX-1 binding site and can block the cardioprotective effect of low-dose aspirin.',
+    management: 'Take immediate-release aspirin at least 30 minutes before ibuprofen, or ibuprofen at least 8 hours before aspirin.',
+    source: 'FDA label: ibuprofen tablets',
+  },
+  {
+    between: ['tramadol', 'class:ssri'],
+    severity: 'major',
+    mechanism: 'Both drugs increase serotonergic activity, risking serotonin syndrome; SSRIs also lower the seizure threshold and CYP2D6 inhibitors reduce tramadol\'s analgesic metabolite.',
+    management: 'Avoid the combination where possible. If used, start low and monitor for agitation, tremor, hyperthermia and seizures.',
+    source: 'FDA label: tramadol hydrochloride tablets',
+  },
+  {
+    between: ['class:ssri', 'class:nsaid'],
+    severity: 'moderate',
+    mechanism: 'SSRIs impair platelet aggregation, adding to the gastrointestinal bleeding risk of NSAIDs.',
+    management: 'Consider paracetamol instead, or add a proton pump inhibitor for gastric protection.',
+    source: 'FDA label: sertraline tablets',
+  },
+
+  // Endocrine
+  {
+    between: ['class:corticosteroid', 'class:antidiabetic'],
+    severity: 'moderate',
+    mechanism: 'Corticosteroids raise blood glucose and oppose the effect of antidiabetic drugs.',
+    management: 'Monitor blood glucose closely during the course and adjust the antidiabetic dose as needed.',
+    source: 'FDA label: prednisone tablets',
+  },
+  {
+    between: ['levothyroxine', 'class:proton-pump-inhibitor'],
+    severity: 'minor',
+    mechanism: 'Reduced gastric acidity can lower levothyroxine absorption.',
+    management: 'Check TSH after starting or stopping long-term acid suppression.',
+    source: 'FDA label: levothyroxine sodium tablets',
+  },
+];
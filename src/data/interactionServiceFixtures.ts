@@ -0,0 +1,65 @@
+// Recorded answers standing in for a remote drug–drug interaction service,
+// in that service's wire format: name pairs with a free-text severity. Used
+// by the stand-in provider in src/lib/interactions/remote.ts until the app is
+// pointed at a live service.
+
+export interface InteractionServicePair {
+  drug_a: string;
+  drug_b: string;
+  /** "High", "Moderate" or "Low". */
+  severity: string;
+  description: string;
+  recommendation: string;
+  reference: string;
+}
+
+export const INTERACTION_SERVICE_PAIRS: InteractionServicePair[] = [
+  {
+    drug_a: 'sertraline',
+    drug_b: 'tramadol',
+    severity: 'High',
+    description: 'Additive serotonergic effects may cause serotonin syndrome; seizure risk is increased.',
+    recommendation: 'Avoid concomitant use or monitor closely for serotonin toxicity and seizures.',
+    reference: 'Interaction service: sertraline–tramadol',
+  },
+  {
+    drug_a: 'fluoxetine',
+    drug_b: 'metoprolol',
+    severity: 'Moderate',
+    description: 'CYP2D6 inhibition by fluoxetine increases metoprolol plasma concentrations.',
+    recommendation: 'Monitor heart rate and blood pressure; reduce the metoprolol dose if bradycardia occurs.',
+    reference: 'Interaction service: fluoxetine–metoprolol',
+  },
+  {
+    drug_a: 'prednisone',
+    drug_b: 'ibuprofen',
+    severity: 'Moderate',
+    description: 'Corticosteroids and NSAIDs together increase the risk of gastrointestinal ulceration and bleeding.',
+    recommendation: 'Use the lowest effective doses and consider a proton pump inhibitor.',
+    reference: 'Interaction service: prednisone–ibuprofen',
+  },
+  {
+    drug_a: 'prednisone',
+    drug_b: 'aspirin',
+    severity: 'Moderate',
+    description: 'Corticosteroids increase the gastrointestinal toxicity of aspirin and lower salicylate levels.',
+    recommendation: 'Consider gastric protection; monitor salicylate effect when the steroid dose changes.',
+    reference: 'Interaction service: prednisone–aspirin',
+  },
+  {
+    drug_a: 'warfarin',
+    drug_b: 'amoxicillin',
+    severity: 'Moderate',
+    description: 'Broad-spectrum antibiotics can increase the INR, possibly by reducing vitamin K-producing gut flora.',
+    recommendation: 'Monitor INR during and after the antibiotic course.',
+    reference: 'Interaction service: warfarin–amoxicillin',
+  },
+  {
+    drug_a: 'atorvastatin',
+    drug_b: 'azithromycin',
+    severity: 'Low',
+    description: 'Rare reports of rhabdomyolysis with macrolide antibiotics; azithromycin does not inhibit CYP3A4 significantly.',
+    recommendation: 'No dose change needed; advise the patient to report unexplained muscle pain.',
+    reference: 'Interaction service: atorvastatin–azithromycin',
+  },
+];
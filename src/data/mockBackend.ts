@@ -0,0 +1,200 @@
+// Responses recorded from the prediction backend, used by the built-in mock
+// mode. Payloads are kept exactly as the service returned them (snake_case,
+// optional fields omitted) so they exercise the same response schemas; the
+// mock fills in the requested drug name and patient details when serving.
+
+export const MOCK_FIXTURES_RECORDED = '2025-09-30';
+
+export const healthFixture = {
+  status: 'healthy',
+  message: 'Drug Response Predictor API is running',
+};
+
+export const systemStatusFixture = {
+  version: '2.3.1',
+  status: 'operational',
+  components: {
+    ml_model: true,
+    real_data_integration: true,
+  },
+};
+
+export type MockOutcome = 'effective' | 'ineffective' | 'risky';
+
+const geneticMarkers = {
+  effective: {
+    CYP2C19: { genotype: '*1/*1', phenotype: 'Normal Metabolizer', activity_score: 2.0, drugs_affected: ['clopidogrel', 'omeprazole', 'sertraline'] },
+    CYP2D6: { genotype: '*1/*2', phenotype: 'Normal Metabolizer', activity_score: 2.0, drugs_affected: ['codeine', 'metoprolol', 'tramadol'] },
+  },
+  ineffective: {
+    CYP2C19: { genotype: '*2/*2', phenotype: 'Poor Metabolizer', activity_score: 0, drugs_affected: ['clopidogrel', 'omeprazole', 'sertraline'] },
+    CYP2D6: { genotype: '*1/*1', phenotype: 'Normal Metabolizer', activity_score: 2.0, drugs_affected: ['codeine', 'metoprolol', 'tramadol'] },
+  },
+  risky: {
+    CYP2C9: { genotype: '*3/*3', phenotype: 'Poor Metabolizer', activity_score: 0, drugs_affected: ['warfarin', 'phenytoin', 'celecoxib'] },
+    VKORC1: { genotype: 'A/A', phenotype: 'High Warfarin Sensitivity', activity_score: 0.5, drugs_affected: ['warfarin'] },
+  },
+};
+
+export const enhancedPredictionFixtures: Record<MockOutcome, Record<string, unknown>> = {
+  effective: {
+    prediction: {
+      prediction_label: 'Effective',
+      confidence: 0.87,
+      reasoning: 'Normal metabolizer status and no interacting medications support a standard response.',
+    },
+    patient_data: {
+      medical_history: ['Hypertension'],
+    },
+    genetic_profile: { genetic_markers: geneticMarkers.effective },
+    drug_info: {
+      interactions: { count: 0 },
+      dosage_info: { route: 'oral', frequency: 'once daily' },
+    },
+    clinical_recommendations: [
+      'Start at the standard dose',
+      'Review response and tolerability after 4 weeks',
+    ],
+    analysis_summary: 'The model predicts an effective response with high confidence. Pharmacogenetic markers show normal enzyme activity.',
+  },
+  ineffective: {
+    prediction: {
+      prediction_label: 'Ineffective',
+      confidence: 0.74,
+      reasoning: 'CYP2C19 poor metabolizer status is expected to reduce activation of the prodrug.',
+    },
+    genetic_profile: { genetic_markers: geneticMarkers.ineffective },
+    drug_info: {
+      interactions: { count: 0 },
+    },
+    clinical_recommendations: [
+      'Consider an alternative agent not dependent on CYP2C19 activation',
+      'If continued, monitor for lack of therapeutic effect',
+    ],
+    analysis_summary: 'The model predicts a reduced therapeutic response. Reduced CYP2C19 activity is the main contributing factor.',
+  },
+  risky: {
+    prediction: {
+      prediction_label: 'Risky/Adverse',
+      confidence: 0.81,
+      reasoning: 'Combined CYP2C9 and VKORC1 variants indicate a high risk of over-anticoagulation at standard doses.',
+    },
+    genetic_profile: { genetic_markers: geneticMarkers.risky },
+    drug_info: {
+      interactions: { count: 2, severity: 'major' },
+    },
+    clinical_recommendations: [
+      'Reduce the starting dose substantially or choose an alternative',
+      'Check INR within 3-5 days of starting and after every dose change',
+    ],
+    analysis_summary: 'The model predicts a high risk of adverse effects. Genetic variants strongly increase sensitivity to this medicine.',
+  },
+};
+
+const suitabilityFixture = {
+  overall_suitability: {
+    status: 'Suitable',
+    score: 82,
+    color: 'green',
+    recommendation: 'This medicine is suitable at the standard dose.',
+    confidence: 0.79,
+  },
+  assessment_factors: [
+    { factor: 'Age', impact: 'Neutral', description: 'Adult dosing applies.', recommendation: 'No age-related adjustment needed.' },
+    { factor: 'Kidney function', impact: 'Neutral', description: 'No renal impairment recorded.', recommendation: 'Routine monitoring only.' },
+  ],
+  safety_information: {
+    warnings: ['Report unusual bleeding or bruising'],
+    interactions: { has_interactions: false, interaction_count: 0, recommendation: 'No interacting medicines recorded.' },
+    monitoring_required: false,
+  },
+  personalized_recommendations: ['Take with food to reduce stomach upset'],
+  next_steps: ['Discuss this result with your prescriber'],
+  emergency_contact: 'Seek urgent care for signs of a severe allergic reaction.',
+};
+
+// Recorded with the enhanced endpoint returning 503; only the outcome varies
+export const standardPredictionFixtures: Record<MockOutcome, Record<string, unknown>> = {
+  effective: {
+    prediction: 'Effective',
+    confidence: 0.83,
+    patient_data: { bmi: 24.2 },
+    analysis_summary: 'Standard analysis predicts an effective response.',
+    medicine_suitability: suitabilityFixture,
+  },
+  ineffective: {
+    prediction: 'Ineffective',
+    confidence: 0.69,
+    patient_data: { bmi: 27.8 },
+    analysis_summary: 'Standard analysis predicts a reduced therapeutic response.',
+    medicine_suitability: {
+      ...suitabilityFixture,
+      overall_suitability: {
+        status: 'Less Suitable',
+        score: 48,
+        color: 'orange',
+        recommendation: 'Consider an alternative medicine with a different mechanism.',
+        confidence: 0.66,
+      },
+    },
+  },
+  risky: {
+    prediction: 'Risky/Adverse',
+    confidence: 0.78,
+    patient_data: { bmi: 31.5 },
+    analysis_summary: 'Standard analysis predicts a high risk of adverse effects.',
+    medicine_suitability: {
+      ...suitabilityFixture,
+      overall_suitability: {
+        status: 'Not Recommended',
+        score: 21,
+        color: 'red',
+        recommendation: 'Avoid unless no alternative is available and close monitoring is possible.',
+        confidence: 0.74,
+      },
+      safety_information: {
+        warnings: ['High bleeding risk', 'Frequent INR checks required'],
+        interactions: { has_interactions: true, interaction_count: 2, recommendation: 'Review interacting medicines before starting.' },
+        monitoring_required: true,
+      },
+    },
+  },
+};
+
+export const drugInfoFixtures: Record<string, Record<string, unknown>> = {
+  warfarin: {
+    drug_name: 'warfarin',
+    sources: ['DrugBank'],
+    drugbank: {
+      indication: 'prophylaxis and treatment of venous thromboembolism and thromboembolic complications of atrial fibrillation',
+      mechanism_of_action: 'Inhibits vitamin K epoxide reductase (VKORC1), depleting the vitamin K-dependent clotting factors II, VII, IX and X.',
+      warnings: ['May cause major or fatal bleeding', 'Regular INR monitoring is required'],
+    },
+  },
+  clopidogrel: {
+    drug_name: 'clopidogrel',
+    sources: ['DrugBank'],
+    drugbank: {
+      indication: 'reducing the risk of myocardial infarction and stroke in acute coronary syndrome and peripheral arterial disease',
+      mechanism_of_action: 'A prodrug activated mainly by CYP2C19 whose active metabolite irreversibly blocks the platelet P2Y12 receptor.',
+      warnings: ['Diminished effectiveness in CYP2C19 poor metabolizers'],
+    },
+  },
+  metformin: {
+    drug_name: 'metformin',
+    sources: ['DrugBank'],
+    drugbank: {
+      indication: 'type 2 diabetes mellitus',
+      mechanism_of_action: 'Decreases hepatic glucose production and improves insulin sensitivity.',
+      warnings: ['Lactic acidosis has been reported, mostly with renal impairment'],
+    },
+  },
+};
+
+// Each breaks a different rule of the response schemas
+export const malformedFixtures = {
+  systemStatus: { status: 'operational', components: { ml_model: 'yes' } },
+  enhancedPrediction: { prediction: { prediction_label: 'Effective', confidence: 87 } },
+  standardPrediction: { confidence: 0.83, analysis_summary: 'Label missing from payload' },
+  drugInfo: { data: { drug_name: 'warfarin', rxnorm: { found: 'yes', concepts: null } } },
+};
@@ -0,0 +1,631 @@
+import type { GeneDrugGuideline } from '@/lib/pgx/types';
+
+// Gene–drug therapeutic recommendations summarised from the published CPIC
+// guidelines. Phenotype names match src/data/pharmacogenes.ts. Bump the
+// version whenever a rule is added or changed so saved predictions record
+// which table produced their guidance.
+export const PGX_GUIDELINES_VERSION = '2024.2';
+
+const NORMAL_METABOLIZER = ['Normal Metabolizer'];
+const ALL_CYP2C19_NORMAL_OR_FASTER = ['Normal Metabolizer', 'Rapid Metabolizer', 'Ultrarapid Metabolizer'];
+
+export const PGX_GUIDELINES: GeneDrugGuideline[] = [
+  // CYP2C19
+  {
+    gene: 'CYP2C19',
+    drugs: ['clopidogrel'],
+    source: 'CPIC guideline for CYP2C19 and clopidogrel therapy (2022)',
+    rules: [
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Significantly reduced clopidogrel active metabolite formation; increased risk of major adverse cardiovascular events.',
+        recommendation: 'Avoid clopidogrel. Use prasugrel or ticagrelor at standard dose if not contraindicated.',
+        strength: 'strong',
+        alternatives: ['ticagrelor', 'prasugrel'],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer'],
+        implication: 'Reduced clopidogrel active metabolite formation; increased risk of adverse cardiovascular events.',
+        recommendation: 'Avoid standard-dose clopidogrel. Use prasugrel or ticagrelor at standard dose if not contraindicated.',
+        strength: 'moderate',
+        alternatives: ['ticagrelor', 'prasugrel'],
+      },
+      {
+        phenotypes: ALL_CYP2C19_NORMAL_OR_FASTER,
+        implication: 'Normal or increased clopidogrel active metabolite formation.',
+        recommendation: 'Use clopidogrel at the standard dose (75 mg/day).',
+        strength: 'strong',
+        alternatives: [],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2C19',
+    drugs: ['citalopram', 'escitalopram'],
+    source: 'CPIC guideline for CYP2D6, CYP2C19, CYP2B6, SLC6A4 and HTR2A and SSRIs (2023)',
+    rules: [
+      {
+        phenotypes: ['Ultrarapid Metabolizer', 'Rapid Metabolizer'],
+        implication: 'Increased metabolism and lower plasma concentrations; higher chance of treatment failure.',
+        recommendation: 'Consider a clinically appropriate antidepressant not predominantly metabolized by CYP2C19.',
+        strength: 'moderate',
+        alternatives: ['sertraline', 'non-SSRI antidepressant'],
+      },
+      {
+        phenotypes: ['Normal Metabolizer', 'Intermediate Metabolizer'],
+        implication: 'Normal to slightly reduced metabolism.',
+        recommendation: 'Initiate therapy with the recommended starting dose.',
+        strength: 'strong',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Greatly reduced metabolism and higher plasma concentrations; increased risk of side effects and QT prolongation.',
+        recommendation: 'Consider a lower starting dose and slower titration, or a drug not predominantly metabolized by CYP2C19.',
+        strength: 'moderate',
+        alternatives: ['50% of the usual starting dose', 'non-CYP2C19 antidepressant'],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2C19',
+    drugs: ['sertraline'],
+    source: 'CPIC guideline for CYP2D6, CYP2C19, CYP2B6, SLC6A4 and HTR2A and SSRIs (2023)',
+    rules: [
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Greatly reduced metabolism and higher plasma concentrations; increased risk of side effects.',
+        recommendation: 'Consider a lower starting dose and slower titration schedule.',
+        strength: 'moderate',
+        alternatives: ['50% of the usual starting dose'],
+      },
+      {
+        phenotypes: ['Ultrarapid Metabolizer', 'Rapid Metabolizer', 'Normal Metabolizer', 'Intermediate Metabolizer'],
+        implication: 'Normal or modestly altered metabolism.',
+        recommendation: 'Initiate therapy with the recommended starting dose; titrate to efficacy.',
+        strength: 'optional',
+        alternatives: [],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2C19',
+    drugs: ['omeprazole', 'lansoprazole', 'pantoprazole'],
+    source: 'CPIC guideline for CYP2C19 and proton pump inhibitor dosing (2020)',
+    rules: [
+      {
+        phenotypes: ['Ultrarapid Metabolizer'],
+        implication: 'Decreased plasma concentrations; increased risk of therapy failure.',
+        recommendation: 'Increase the starting daily dose by 100% and monitor for efficacy.',
+        strength: 'optional',
+        alternatives: ['rabeprazole', 'esomeprazole'],
+      },
+      {
+        phenotypes: ['Rapid Metabolizer', 'Normal Metabolizer'],
+        implication: 'Normal to somewhat decreased plasma concentrations.',
+        recommendation: 'Initiate the standard starting dose. For H. pylori or erosive esophagitis consider increasing the dose by 50–100%.',
+        strength: 'moderate',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer'],
+        implication: 'Increased plasma concentrations; likely increased efficacy.',
+        recommendation: 'Initiate the standard starting dose. For chronic therapy beyond 12 weeks consider a 50% dose reduction.',
+        strength: 'optional',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Markedly increased plasma concentrations; possible increased risk of long-term adverse effects.',
+        recommendation: 'Initiate the standard starting dose. For chronic therapy beyond 12 weeks consider a 50% dose reduction.',
+        strength: 'moderate',
+        alternatives: [],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2C19',
+    drugs: ['voriconazole'],
+    source: 'CPIC guideline for CYP2C19 and voriconazole therapy (2016)',
+    rules: [
+      {
+        phenotypes: ['Ultrarapid Metabolizer', 'Rapid Metabolizer'],
+        implication: 'Low voriconazole trough concentrations; delayed therapeutic levels.',
+        recommendation: 'Choose an alternative agent that is not dependent on CYP2C19 metabolism.',
+        strength: 'moderate',
+        alternatives: ['isavuconazole', 'liposomal amphotericin B', 'posaconazole'],
+      },
+      {
+        phenotypes: ['Normal Metabolizer', 'Intermediate Metabolizer'],
+        implication: 'Normal or modestly increased voriconazole metabolism.',
+        recommendation: 'Initiate therapy with the recommended standard dosing.',
+        strength: 'strong',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Higher voriconazole trough concentrations; increased risk of adverse events.',
+        recommendation: 'Choose an alternative agent; if voriconazole is necessary use a reduced dose with therapeutic drug monitoring.',
+        strength: 'moderate',
+        alternatives: ['isavuconazole', 'liposomal amphotericin B', 'posaconazole'],
+      },
+    ],
+  },
+
+  // CYP2D6
+  {
+    gene: 'CYP2D6',
+    drugs: ['codeine', 'tramadol'],
+    source: 'CPIC guideline for CYP2D6, OPRM1 and COMT and opioid therapy (2021)',
+    rules: [
+      {
+        phenotypes: ['Ultrarapid Metabolizer'],
+        implication: 'Increased formation of the active opioid metabolite; higher risk of toxicity.',
+        recommendation: 'Avoid codeine and tramadol. Use a non-tramadol, non-codeine analgesic.',
+        strength: 'strong',
+        alternatives: ['morphine', 'non-opioid analgesics'],
+      },
+      {
+        phenotypes: NORMAL_METABOLIZER,
+        implication: 'Expected formation of the active metabolite.',
+        recommendation: 'Use the label-recommended age- or weight-specific dosing.',
+        strength: 'strong',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer'],
+        implication: 'Reduced formation of the active metabolite.',
+        recommendation: 'Use label-recommended dosing. If there is no response, consider a non-tramadol, non-codeine opioid.',
+        strength: 'moderate',
+        alternatives: ['morphine', 'non-opioid analgesics'],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Greatly reduced formation of the active metabolite; diminished analgesia.',
+        recommendation: 'Avoid codeine and tramadol because of lack of efficacy. Use a non-tramadol, non-codeine analgesic.',
+        strength: 'strong',
+        alternatives: ['morphine', 'non-opioid analgesics'],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2D6',
+    drugs: ['tamoxifen'],
+    source: 'CPIC guideline for CYP2D6 and tamoxifen therapy (2018)',
+    rules: [
+      {
+        phenotypes: ['Ultrarapid Metabolizer', 'Normal Metabolizer'],
+        implication: 'Therapeutic endoxifen concentrations expected.',
+        recommendation: 'Initiate therapy with the recommended standard dose (20 mg/day).',
+        strength: 'strong',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer'],
+        implication: 'Lower endoxifen concentrations; higher risk of breast cancer recurrence.',
+        recommendation: 'Consider an aromatase inhibitor for postmenopausal women, or a higher tamoxifen dose (40 mg/day).',
+        strength: 'moderate',
+        alternatives: ['aromatase inhibitor', 'tamoxifen 40 mg/day'],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Much lower endoxifen concentrations; higher risk of breast cancer recurrence.',
+        recommendation: 'Recommend alternative hormonal therapy such as an aromatase inhibitor.',
+        strength: 'strong',
+        alternatives: ['aromatase inhibitor'],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2D6',
+    drugs: ['ondansetron'],
+    source: 'CPIC guideline for CYP2D6 and ondansetron/tropisetron (2017)',
+    rules: [
+      {
+        phenotypes: ['Ultrarapid Metabolizer'],
+        implication: 'Increased metabolism; decreased response to ondansetron.',
+        recommendation: 'Select an alternative antiemetic not predominantly metabolized by CYP2D6.',
+        strength: 'moderate',
+        alternatives: ['granisetron'],
+      },
+      {
+        phenotypes: ['Normal Metabolizer', 'Intermediate Metabolizer', 'Poor Metabolizer'],
+        implication: 'Insufficient evidence of a clinically relevant change in response.',
+        recommendation: 'Initiate therapy with the recommended starting dose.',
+        strength: 'strong',
+        alternatives: [],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2D6',
+    drugs: ['metoprolol'],
+    source: 'CPIC guideline for CYP2D6 and beta-blockers (2024)',
+    rules: [
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Increased metoprolol concentrations; higher risk of bradycardia.',
+        recommendation: 'Initiate at the lowest starting dose and titrate gradually, or consider a beta-blocker not metabolized by CYP2D6.',
+        strength: 'optional',
+        alternatives: ['bisoprolol', 'carvedilol'],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer'],
+        implication: 'Modestly increased metoprolol concentrations.',
+        recommendation: 'Initiate the standard starting dose and titrate more gradually, monitoring heart rate.',
+        strength: 'optional',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Normal Metabolizer', 'Ultrarapid Metabolizer'],
+        implication: 'Normal or decreased metoprolol concentrations.',
+        recommendation: 'Initiate the standard starting dose; titrate to effect.',
+        strength: 'optional',
+        alternatives: [],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2D6',
+    drugs: ['amitriptyline', 'nortriptyline'],
+    source: 'CPIC guideline for CYP2D6, CYP2C19 and tricyclic antidepressants (2016)',
+    rules: [
+      {
+        phenotypes: ['Ultrarapid Metabolizer'],
+        implication: 'Increased metabolism to less active compounds; risk of treatment failure.',
+        recommendation: 'Avoid tricyclic use. If warranted, titrate to a higher target dose guided by therapeutic drug monitoring.',
+        strength: 'strong',
+        alternatives: ['antidepressant not metabolized by CYP2D6'],
+      },
+      {
+        phenotypes: NORMAL_METABOLIZER,
+        implication: 'Normal metabolism of tricyclics.',
+        recommendation: 'Initiate therapy with the recommended starting dose.',
+        strength: 'strong',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer'],
+        implication: 'Reduced metabolism; higher plasma concentrations increase the chance of side effects.',
+        recommendation: 'Consider a 25% reduction of the recommended starting dose, with therapeutic drug monitoring.',
+        strength: 'moderate',
+        alternatives: ['75% of the usual starting dose'],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Greatly reduced metabolism; higher plasma concentrations increase the chance of side effects.',
+        recommendation: 'Avoid tricyclic use. If warranted, consider a 50% reduction of the starting dose with therapeutic drug monitoring.',
+        strength: 'strong',
+        alternatives: ['antidepressant not metabolized by CYP2D6', '50% of the usual starting dose'],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2D6',
+    drugs: ['paroxetine'],
+    source: 'CPIC guideline for CYP2D6, CYP2C19, CYP2B6, SLC6A4 and HTR2A and SSRIs (2023)',
+    rules: [
+      {
+        phenotypes: ['Ultrarapid Metabolizer'],
+        implication: 'Increased metabolism and lower plasma concentrations; higher chance of treatment failure.',
+        recommendation: 'Select an alternative antidepressant not predominantly metabolized by CYP2D6.',
+        strength: 'optional',
+        alternatives: ['antidepressant not metabolized by CYP2D6'],
+      },
+      {
+        phenotypes: ['Normal Metabolizer', 'Intermediate Metabolizer'],
+        implication: 'Normal to modestly reduced metabolism.',
+        recommendation: 'Initiate therapy with the recommended starting dose.',
+        strength: 'moderate',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Greatly reduced metabolism and higher plasma concentrations; increased chance of side effects.',
+        recommendation: 'Consider a lower starting dose and slower titration (about 50% reduction), or an alternative antidepressant.',
+        strength: 'optional',
+        alternatives: ['50% of the usual starting dose', 'antidepressant not metabolized by CYP2D6'],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2D6',
+    drugs: ['atomoxetine'],
+    source: 'CPIC guideline for CYP2D6 and atomoxetine therapy (2019)',
+    rules: [
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Higher atomoxetine concentrations; increased risk of side effects.',
+        recommendation: 'Initiate at 40 mg/day and increase to 80 mg/day after 2 weeks only if response is inadequate and the drug is tolerated.',
+        strength: 'moderate',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Normal Metabolizer', 'Intermediate Metabolizer', 'Ultrarapid Metabolizer'],
+        implication: 'Lower atomoxetine concentrations than poor metabolizers; possible reduced response.',
+        recommendation: 'Initiate the standard starting dose; if response is inadequate after 2 weeks consider titration guided by plasma concentration.',
+        strength: 'moderate',
+        alternatives: [],
+      },
+    ],
+  },
+
+  // CYP2C9 and VKORC1
+  {
+    gene: 'CYP2C9',
+    drugs: ['warfarin'],
+    source: 'CPIC guideline for CYP2C9, VKORC1, CYP4F2 and warfarin dosing (2017)',
+    rules: [
+      {
+        phenotypes: ['Intermediate Metabolizer', 'Poor Metabolizer'],
+        implication: 'Reduced warfarin clearance; lower dose requirement and higher bleeding risk.',
+        recommendation: 'Calculate the starting dose with a validated pharmacogenetic algorithm that includes CYP2C9; expect a lower dose requirement.',
+        strength: 'strong',
+        alternatives: ['pharmacogenetic dosing algorithm', 'direct oral anticoagulant if clinically appropriate'],
+      },
+      {
+        phenotypes: NORMAL_METABOLIZER,
+        implication: 'Normal warfarin clearance.',
+        recommendation: 'Calculate the starting dose with a validated pharmacogenetic algorithm.',
+        strength: 'strong',
+        alternatives: [],
+      },
+    ],
+  },
+  {
+    gene: 'VKORC1',
+    drugs: ['warfarin', 'acenocoumarol', 'phenprocoumon'],
+    source: 'CPIC guideline for CYP2C9, VKORC1, CYP4F2 and warfarin dosing (2017)',
+    rules: [
+      {
+        phenotypes: ['High Warfarin Sensitivity', 'Intermediate Warfarin Sensitivity'],
+        implication: 'Reduced VKORC1 expression; lower coumarin dose requirement.',
+        recommendation: 'Use a validated pharmacogenetic algorithm including VKORC1 -1639G>A; expect a reduced starting dose.',
+        strength: 'strong',
+        alternatives: ['pharmacogenetic dosing algorithm'],
+      },
+      {
+        phenotypes: ['Normal Warfarin Sensitivity'],
+        implication: 'Typical VKORC1 expression and coumarin dose requirement.',
+        recommendation: 'Use a validated pharmacogenetic algorithm to calculate the starting dose.',
+        strength: 'strong',
+        alternatives: [],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2C9',
+    drugs: ['celecoxib', 'ibuprofen'],
+    source: 'CPIC guideline for CYP2C9 and NSAIDs (2020)',
+    rules: [
+      {
+        phenotypes: ['Normal Metabolizer', 'Intermediate Metabolizer'],
+        activityScore: { min: 1.5 },
+        implication: 'Normal or mildly reduced metabolism.',
+        recommendation: 'Initiate therapy with the recommended starting dose.',
+        strength: 'strong',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer'],
+        activityScore: { max: 1 },
+        implication: 'Moderately reduced metabolism; higher plasma concentrations may increase toxicity.',
+        recommendation: 'Initiate the lowest recommended starting dose and titrate upward cautiously.',
+        strength: 'moderate',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Significantly reduced metabolism and prolonged half-life; higher risk of toxicity.',
+        recommendation: 'Initiate at 25–50% of the lowest recommended starting dose, or choose an alternative not metabolized by CYP2C9.',
+        strength: 'moderate',
+        alternatives: ['aspirin', 'ketorolac', 'naproxen', 'sulindac'],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2C9',
+    drugs: ['meloxicam'],
+    source: 'CPIC guideline for CYP2C9 and NSAIDs (2020)',
+    rules: [
+      {
+        phenotypes: ['Normal Metabolizer', 'Intermediate Metabolizer'],
+        activityScore: { min: 1.5 },
+        implication: 'Normal or mildly reduced metabolism.',
+        recommendation: 'Initiate therapy with the recommended starting dose.',
+        strength: 'strong',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer'],
+        activityScore: { max: 1 },
+        implication: 'Moderately reduced metabolism and prolonged half-life.',
+        recommendation: 'Initiate at 50% of the lowest recommended starting dose, or choose an alternative not metabolized by CYP2C9.',
+        strength: 'moderate',
+        alternatives: ['aspirin', 'ketorolac', 'naproxen', 'sulindac'],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Markedly prolonged half-life; higher risk of toxicity.',
+        recommendation: 'Choose an alternative therapy not metabolized by CYP2C9 or not prolonged by CYP2C9 variants.',
+        strength: 'moderate',
+        alternatives: ['aspirin', 'ketorolac', 'naproxen', 'sulindac'],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2C9',
+    drugs: ['piroxicam'],
+    source: 'CPIC guideline for CYP2C9 and NSAIDs (2020)',
+    rules: [
+      {
+        phenotypes: ['Normal Metabolizer', 'Intermediate Metabolizer'],
+        activityScore: { min: 1.5 },
+        implication: 'Normal or mildly reduced metabolism.',
+        recommendation: 'Initiate therapy with the recommended starting dose.',
+        strength: 'strong',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer', 'Poor Metabolizer'],
+        implication: 'Reduced metabolism and markedly prolonged half-life.',
+        recommendation: 'Choose an alternative therapy not metabolized by CYP2C9.',
+        strength: 'moderate',
+        alternatives: ['aspirin', 'ketorolac', 'naproxen', 'sulindac'],
+      },
+    ],
+  },
+  {
+    gene: 'CYP2C9',
+    drugs: ['phenytoin'],
+    source: 'CPIC guideline for CYP2C9, HLA-B and phenytoin dosing (2020)',
+    rules: [
+      {
+        phenotypes: ['Normal Metabolizer', 'Intermediate Metabolizer'],
+        activityScore: { min: 1.5 },
+        implication: 'Normal or mildly reduced phenytoin metabolism.',
+        recommendation: 'Use the standard loading and maintenance dose.',
+        strength: 'strong',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer'],
+        activityScore: { max: 1 },
+        implication: 'Reduced phenytoin metabolism; higher plasma concentrations increase toxicity risk.',
+        recommendation: 'Use the standard loading dose; reduce the maintenance dose by 25% and adjust with therapeutic drug monitoring.',
+        strength: 'moderate',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Greatly reduced phenytoin metabolism; high risk of toxicity.',
+        recommendation: 'Use the standard loading dose; reduce the maintenance dose by 50% and adjust with therapeutic drug monitoring.',
+        strength: 'strong',
+        alternatives: [],
+      },
+    ],
+  },
+
+  // SLCO1B1
+  {
+    gene: 'SLCO1B1',
+    drugs: ['simvastatin'],
+    source: 'CPIC guideline for SLCO1B1, ABCG2, CYP2C9 and statin-associated musculoskeletal symptoms (2022)',
+    rules: [
+      {
+        phenotypes: ['Decreased Function', 'Poor Function'],
+        implication: 'Increased simvastatin acid exposure; higher risk of myopathy.',
+        recommendation: 'Prescribe an alternative statin at a dose matched to the desired potency.',
+        strength: 'strong',
+        alternatives: ['rosuvastatin', 'pravastatin', 'pitavastatin', 'fluvastatin'],
+      },
+      {
+        phenotypes: ['Normal Function'],
+        implication: 'Typical myopathy risk.',
+        recommendation: 'Prescribe the desired starting dose and adjust based on disease-specific guidelines.',
+        strength: 'strong',
+        alternatives: [],
+      },
+    ],
+  },
+  {
+    gene: 'SLCO1B1',
+    drugs: ['atorvastatin'],
+    source: 'CPIC guideline for SLCO1B1, ABCG2, CYP2C9 and statin-associated musculoskeletal symptoms (2022)',
+    rules: [
+      {
+        phenotypes: ['Decreased Function'],
+        implication: 'Increased atorvastatin exposure; possible increased myopathy risk.',
+        recommendation: 'Prescribe ≤40 mg/day. If a higher dose is needed, consider rosuvastatin or combination therapy.',
+        strength: 'moderate',
+        alternatives: ['rosuvastatin'],
+      },
+      {
+        phenotypes: ['Poor Function'],
+        implication: 'Increased atorvastatin exposure; higher myopathy risk.',
+        recommendation: 'Prescribe ≤20 mg/day. If a higher dose is needed, consider rosuvastatin or combination therapy.',
+        strength: 'moderate',
+        alternatives: ['rosuvastatin'],
+      },
+      {
+        phenotypes: ['Normal Function'],
+        implication: 'Typical myopathy risk.',
+        recommendation: 'Prescribe the desired starting dose and adjust based on disease-specific guidelines.',
+        strength: 'strong',
+        alternatives: [],
+      },
+    ],
+  },
+  {
+    gene: 'SLCO1B1',
+    drugs: ['rosuvastatin'],
+    source: 'CPIC guideline for SLCO1B1, ABCG2, CYP2C9 and statin-associated musculoskeletal symptoms (2022)',
+    rules: [
+      {
+        phenotypes: ['Poor Function'],
+        implication: 'Increased rosuvastatin exposure; possible increased myopathy risk.',
+        recommendation: 'Prescribe ≤20 mg/day. If a higher dose is needed, consider combination therapy.',
+        strength: 'moderate',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Normal Function', 'Decreased Function'],
+        implication: 'Typical or modestly increased exposure.',
+        recommendation: 'Prescribe the desired starting dose and adjust based on disease-specific guidelines.',
+        strength: 'strong',
+        alternatives: [],
+      },
+    ],
+  },
+  {
+    gene: 'SLCO1B1',
+    drugs: ['pravastatin', 'pitavastatin', 'lovastatin'],
+    source: 'CPIC guideline for SLCO1B1, ABCG2, CYP2C9 and statin-associated musculoskeletal symptoms (2022)',
+    rules: [
+      {
+        phenotypes: ['Decreased Function', 'Poor Function'],
+        implication: 'Increased statin exposure; higher myopathy risk.',
+        recommendation: 'Prescribe a lower dose or consider an alternative statin; adjust based on disease-specific guidelines.',
+        strength: 'moderate',
+        alternatives: ['rosuvastatin', 'fluvastatin'],
+      },
+      {
+        phenotypes: ['Normal Function'],
+        implication: 'Typical myopathy risk.',
+        recommendation: 'Prescribe the desired starting dose and adjust based on disease-specific guidelines.',
+        strength: 'strong',
+        alternatives: [],
+      },
+    ],
+  },
+
+  // TPMT
+  {
+    gene: 'TPMT',
+    drugs: ['azathioprine', 'mercaptopurine', 'thioguanine'],
+    source: 'CPIC guideline for thiopurine dosing based on TPMT and NUDT15 (2018)',
+    rules: [
+      {
+        phenotypes: ['Normal Metabolizer'],
+        implication: 'Lower concentrations of thioguanine nucleotides; normal myelosuppression risk.',
+        recommendation: 'Start with the normal starting dose and allow 2 weeks to reach steady state after each adjustment.',
+        strength: 'strong',
+        alternatives: [],
+      },
+      {
+        phenotypes: ['Intermediate Metabolizer'],
+        implication: 'Moderate to high thioguanine nucleotide concentrations; increased risk of myelosuppression.',
+        recommendation: 'Start with a reduced dose (30–80% of the normal dose) and adjust based on myelosuppression.',
+        strength: 'strong',
+        alternatives: ['30–80% of the normal starting dose'],
+      },
+      {
+        phenotypes: ['Poor Metabolizer'],
+        implication: 'Extremely high thioguanine nucleotide concentrations; fatal toxicity possible without dose reduction.',
+        recommendation: 'For malignancy, start at 10% of the normal dose three times weekly. For nonmalignant conditions, use an alternative nonthiopurine immunosuppressant.',
+        strength: 'strong',
+        alternatives: ['nonthiopurine immunosuppressant', '10% of the normal dose three times weekly'],
+      },
+    ],
+  },
+];
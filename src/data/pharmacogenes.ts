@@ -0,0 +1,131 @@
+import type { GeneDefinition } from '@/lib/pgx/types';
+
+// SNV-based star allele definitions for the supported pharmacogenes, after
+// PharmVar/CPIC. Alleles are on the GRCh37 plus strand, matching both VCF
+// and consumer raw-data files. Copy-number variants (CYP2D6 *5, duplications)
+// cannot be called from these inputs, so ultrarapid CYP2D6 is never reported.
+
+export const PHARMACOGENES: GeneDefinition[] = [
+  {
+    gene: 'CYP2D6',
+    variants: [
+      { rsid: 'rs3892097', chrom: '22', pos: 42524947, ref: 'C', alt: 'T', name: '1846G>A' },
+      { rsid: 'rs1065852', chrom: '22', pos: 42526694, ref: 'G', alt: 'A', name: '100C>T' },
+      { rsid: 'rs28371725', chrom: '22', pos: 42523805, ref: 'C', alt: 'T', name: '2988G>A' },
+      { rsid: 'rs28371706', chrom: '22', pos: 42525772, ref: 'G', alt: 'A', name: '1023C>T' },
+    ],
+    alleles: [
+      { name: '*1', variants: [], activity: 1 },
+      { name: '*4', variants: ['rs3892097', 'rs1065852'], activity: 0 },
+      { name: '*10', variants: ['rs1065852'], activity: 0.25 },
+      { name: '*17', variants: ['rs28371706'], activity: 0.5 },
+      { name: '*41', variants: ['rs28371725'], activity: 0.5 },
+    ],
+    // CPIC 2019 CYP2D6 activity score bands
+    phenotypes: [
+      { minScore: 1.25, phenotype: 'Normal Metabolizer' },
+      { minScore: 0.25, phenotype: 'Intermediate Metabolizer' },
+      { minScore: 0, phenotype: 'Poor Metabolizer' },
+    ],
+    drugsAffected: ['codeine', 'tramadol', 'tamoxifen', 'ondansetron', 'metoprolol', 'amitriptyline', 'nortriptyline', 'paroxetine', 'atomoxetine'],
+  },
+  {
+    gene: 'CYP2C19',
+    variants: [
+      { rsid: 'rs4244285', chrom: '10', pos: 96541616, ref: 'G', alt: 'A', name: '681G>A' },
+      { rsid: 'rs4986893', chrom: '10', pos: 96540410, ref: 'G', alt: 'A', name: '636G>A' },
+      { rsid: 'rs12248560', chrom: '10', pos: 96521657, ref: 'C', alt: 'T', name: '-806C>T' },
+    ],
+    // Increased-function *17 scored 1.5 so *1/*17 lands on rapid and *17/*17 on ultrarapid
+    alleles: [
+      { name: '*1', variants: [], activity: 1 },
+      { name: '*2', variants: ['rs4244285'], activity: 0 },
+      { name: '*3', variants: ['rs4986893'], activity: 0 },
+      { name: '*17', variants: ['rs12248560'], activity: 1.5 },
+    ],
+    phenotypes: [
+      { minScore: 3, phenotype: 'Ultrarapid Metabolizer' },
+      { minScore: 2.5, phenotype: 'Rapid Metabolizer' },
+      { minScore: 2, phenotype: 'Normal Metabolizer' },
+      { minScore: 1, phenotype: 'Intermediate Metabolizer' },
+      { minScore: 0, phenotype: 'Poor Metabolizer' },
+    ],
+    drugsAffected: ['clopidogrel', 'citalopram', 'escitalopram', 'sertraline', 'omeprazole', 'lansoprazole', 'pantoprazole', 'voriconazole'],
+  },
+  {
+    gene: 'CYP2C9',
+    variants: [
+      { rsid: 'rs1799853', chrom: '10', pos: 96702047, ref: 'C', alt: 'T', name: '430C>T' },
+      { rsid: 'rs1057910', chrom: '10', pos: 96741053, ref: 'A', alt: 'C', name: '1075A>C' },
+    ],
+    alleles: [
+      { name: '*1', variants: [], activity: 1 },
+      { name: '*2', variants: ['rs1799853'], activity: 0.5 },
+      { name: '*3', variants: ['rs1057910'], activity: 0 },
+    ],
+    phenotypes: [
+      { minScore: 2, phenotype: 'Normal Metabolizer' },
+      { minScore: 1, phenotype: 'Intermediate Metabolizer' },
+      { minScore: 0, phenotype: 'Poor Metabolizer' },
+    ],
+    drugsAffected: ['warfarin', 'phenytoin', 'celecoxib', 'ibuprofen', 'meloxicam', 'piroxicam', 'siponimod'],
+  },
+  {
+    gene: 'VKORC1',
+    variants: [
+      { rsid: 'rs9923231', chrom: '16', pos: 31107689, ref: 'C', alt: 'T', name: '-1639G>A' },
+    ],
+    // Scored as the number of -1639G alleles: lower means more warfarin-sensitive
+    alleles: [
+      { name: '-1639G', variants: [], activity: 1 },
+      { name: '-1639A', variants: ['rs9923231'], activity: 0 },
+    ],
+    phenotypes: [
+      { minScore: 2, phenotype: 'Normal Warfarin Sensitivity' },
+      { minScore: 1, phenotype: 'Intermediate Warfarin Sensitivity' },
+      { minScore: 0, phenotype: 'High Warfarin Sensitivity' },
+    ],
+    drugsAffected: ['warfarin', 'acenocoumarol', 'phenprocoumon'],
+    genotypeLabel: altCount => ['G/G', 'G/A', 'A/A'][altCount],
+  },
+  {
+    gene: 'SLCO1B1',
+    variants: [
+      { rsid: 'rs4149056', chrom: '12', pos: 21331549, ref: 'T', alt: 'C', name: '521T>C' },
+      { rsid: 'rs2306283', chrom: '12', pos: 21329738, ref: 'A', alt: 'G', name: '388A>G' },
+    ],
+    alleles: [
+      { name: '*1', variants: [], activity: 1 },
+      { name: '*37', variants: ['rs2306283'], activity: 1 },
+      { name: '*5', variants: ['rs4149056'], activity: 0 },
+      { name: '*15', variants: ['rs4149056', 'rs2306283'], activity: 0 },
+    ],
+    phenotypes: [
+      { minScore: 2, phenotype: 'Normal Function' },
+      { minScore: 1, phenotype: 'Decreased Function' },
+      { minScore: 0, phenotype: 'Poor Function' },
+    ],
+    drugsAffected: ['simvastatin', 'atorvastatin', 'rosuvastatin', 'pravastatin', 'pitavastatin', 'lovastatin', 'fluvastatin'],
+  },
+  {
+    gene: 'TPMT',
+    variants: [
+      { rsid: 'rs1800462', chrom: '6', pos: 18143955, ref: 'C', alt: 'G', name: '238G>C' },
+      { rsid: 'rs1800460', chrom: '6', pos: 18139228, ref: 'C', alt: 'T', name: '460G>A' },
+      { rsid: 'rs1142345', chrom: '6', pos: 18130918, ref: 'T', alt: 'C', name: '719A>G' },
+    ],
+    alleles: [
+      { name: '*1', variants: [], activity: 1 },
+      { name: '*2', variants: ['rs1800462'], activity: 0 },
+      { name: '*3A', variants: ['rs1800460', 'rs1142345'], activity: 0 },
+      { name: '*3B', variants: ['rs1800460'], activity: 0 },
+      { name: '*3C', variants: ['rs1142345'], activity: 0 },
+    ],
+    phenotypes: [
+      { minScore: 2, phenotype: 'Normal Metabolizer' },
+      { minScore: 1, phenotype: 'Intermediate Metabolizer' },
+      { minScore: 0, phenotype: 'Poor Metabolizer' },
+    ],
+    drugsAffected: ['azathioprine', 'mercaptopurine', 'thioguanine'],
+  },
+];
@@ -0,0 +1,17 @@
+import { useCallback, useEffect, useState } from "react";
+import { getMockSettings, MockSettings, setMockSettings, subscribeMockSettings } from "@/lib/api/mock";
+
+// Starts from the build default so server and client render the same markup,
+// then picks up the browser's stored setting after mount.
+export function useMockMode(): [MockSettings, (settings: MockSettings) => void] {
+  const [settings, setSettings] = useState<MockSettings>({ enabled: false, scenario: "effective" });
+
+  useEffect(() => {
+    const sync = () => setSettings({ ...getMockSettings() });
+    sync();
+    return subscribeMockSettings(sync);
+  }, []);
+
+  const update = useCallback((next: MockSettings) => setMockSettings(next), []);
+  return [settings, update];
+}
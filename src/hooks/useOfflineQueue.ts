@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { checkHealth } from "@/lib/api/client";
+import {
+  deleteQueuedPrediction,
+  isOfflineError,
+  listQueuedPredictions,
+  queuePrediction,
+  updateQueuedPrediction,
+  type QueuedPrediction,
+} from "@/lib/offlineQueue";
+import type { PatientFormData } from "@/types/prediction";
+
+const HEALTH_POLL_MS = 15000;
+const HEALTH_TIMEOUT_MS = 3000;
+// Non-network failures (e.g. a 500 from the backend) are retried a few times, then dropped
+const MAX_REPLAY_ATTEMPTS = 3;
+
+export type OfflineQueueHandlers = {
+  /** Runs and stores one queued prediction; throws if it could not complete. */
+  replay: (item: QueuedPrediction) => Promise<void>;
+  /** Called when `/` answers again after queued work was waiting. */
+  onReconnect: () => void;
+  /** Called for an item given up on after repeated non-network failures. */
+  onDropped: (item: QueuedPrediction, error: unknown) => void;
+};
+
+export function useOfflineQueue(handlers: OfflineQueueHandlers) {
+  const [queued, setQueued] = useState<QueuedPrediction[]>([]);
+  const [replaying, setReplaying] = useState(false);
+  const handlersRef = useRef(handlers);
+  const replayingRef = useRef(false);
+  handlersRef.current = handlers;
+
+  const refresh = useCallback(async () => {
+    try {
+      setQueued(await listQueuedPredictions());
+    } catch (err) {
+      console.log("Failed to read queued predictions:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const enqueue = useCallback(async (formData: PatientFormData) => {
+    const item = await queuePrediction(formData);
+    setQueued(prev => [...prev, item]);
+    return item;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteQueuedPrediction(id);
+    setQueued(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  // Replays oldest first; stops at the first network failure and waits for the next health check
+  const replayAll = useCallback(async () => {
+    if (replayingRef.current) return;
+    replayingRef.current = true;
+    setReplaying(true);
+    try {
+      for (const item of await listQueuedPredictions()) {
+        try {
+          await handlersRef.current.replay(item);
+          await deleteQueuedPrediction(item.id);
+        } catch (err) {
+          if (isOfflineError(err)) break;
+          const attempts = item.attempts + 1;
+          if (attempts >= MAX_REPLAY_ATTEMPTS) {
+            await deleteQueuedPrediction(item.id);
+            handlersRef.current.onDropped(item, err);
+          } else {
+            await updateQueuedPrediction({ ...item, attempts });
+          }
+        }
+        setQueued(await listQueuedPredictions());
+      }
+    } finally {
+      replayingRef.current = false;
+      setReplaying(false);
+      await refresh();
+    }
+  }, [refresh]);
+
+  // While anything is queued, poll the health endpoint and replay once it answers
+  const hasQueued = queued.length > 0;
+  useEffect(() => {
+    if (!hasQueued) return;
+    let cancelled = false;
+
+    const probe = async () => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+      try {
+        await checkHealth(controller.signal);
+      } catch {
+        return;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+      if (cancelled) return;
+      console.log("🟢 Backend reachable again, replaying queued predictions");
+      handlersRef.current.onReconnect();
+      replayAll();
+    };
+
+    const timer = setInterval(probe, HEALTH_POLL_MS);
+    window.addEventListener("online", probe);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      window.removeEventListener("online", probe);
+    };
+  }, [hasQueued, replayAll]);
+
+  return { queued, replaying, enqueue, remove };
+}
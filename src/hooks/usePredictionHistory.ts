@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  deletePrediction,
+  listPredictions,
+  savePrediction,
+  type PredictionRecord,
+} from "@/lib/history";
+import type { PatientFormData, PredictionResult } from "@/types/prediction";
+
+export function usePredictionHistory() {
+  const [records, setRecords] = useState<PredictionRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecords(await listPredictions());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = useCallback(async (formData: PatientFormData, result: PredictionResult) => {
+    try {
+      const record = await savePrediction(formData, result);
+      setRecords(prev => [record, ...prev]);
+      return record;
+    } catch (err) {
+      // History is best-effort; a failed write must not break the prediction flow
+      console.log("Failed to save prediction history:", err);
+      return null;
+    }
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await deletePrediction(id);
+    setRecords(prev => prev.filter(record => record.id !== id));
+  }, []);
+
+  return { records, error, save, remove, refresh };
+}
@@ -0,0 +1,101 @@
+import { ALLERGEN_CLASSES, ALLERGY_CLASSES_VERSION, CROSS_SENSITIVITIES } from '@/data/allergyClasses';
+import type { AllergenClass, AllergyMatch, AllergyScreening, MatchConfidence } from '@/lib/allergy/types';
+import { lookupDrug } from '@/lib/drugs/knowledgeBase';
+import type { AllergyEntry } from '@/types/prediction';
+
+export const CONFIDENCE_LABELS: Record<MatchConfidence, string> = {
+  high: 'High',
+  moderate: 'Moderate',
+  low: 'Low',
+};
+
+const CONFIDENCE_RANK: Record<MatchConfidence, number> = { high: 3, moderate: 2, low: 1 };
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+// Brand names and synonyms resolve through the knowledge base ("Amoxil" → amoxicillin)
+const genericName = (name: string) => lookupDrug(name)?.drug?.name ?? normalise(name);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match, so "penicillin" matches "Penicillin G" but "ace inhibitor" does not match "place"
+const mentions = (text: string, phrase: string) => new RegExp(`(^|[^a-z])${escapeRegExp(phrase)}($|[^a-z])`).test(text);
+
+const classesOf = (drug: string) => ALLERGEN_CLASSES.filter(allergenClass => allergenClass.members.includes(drug));
+
+/** What an allergy entry refers to: specific drugs, whole classes, or both. */
+function resolveAllergen(substance: string) {
+  const text = normalise(substance);
+  const generic = genericName(substance);
+  const drugs = new Set(
+    ALLERGEN_CLASSES.flatMap(allergenClass => allergenClass.members).filter(member => member === generic || mentions(text, member))
+  );
+  if (generic) drugs.add(generic);
+  const classes = ALLERGEN_CLASSES.filter(allergenClass => allergenClass.terms.some(term => mentions(text, term)));
+  return { drugs, classes };
+}
+
+function screenAllergy(allergy: AllergyEntry, drug: string, drugClasses: AllergenClass[]): AllergyMatch | undefined {
+  const allergen = resolveAllergen(allergy.substance);
+
+  if (allergen.drugs.has(drug)) {
+    return { allergy, kind: 'direct', confidence: 'high', reason: `Recorded allergy to ${drug} itself.` };
+  }
+
+  const namedClass = allergen.classes.find(allergenClass => drugClasses.includes(allergenClass));
+  if (namedClass) {
+    return {
+      allergy,
+      kind: 'direct',
+      confidence: 'high',
+      allergenClass: namedClass.name,
+      reason: `${drug} is in the ${namedClass.name} class named in the allergy.`,
+    };
+  }
+
+  // The allergy names other drugs or classes; look for a shared or cross-reactive class
+  const allergenClasses = [...new Set([...allergen.classes, ...[...allergen.drugs].flatMap(classesOf)])];
+  const candidates: AllergyMatch[] = allergenClasses.flatMap(from =>
+    drugClasses.flatMap((to): AllergyMatch[] => {
+      const rule = CROSS_SENSITIVITIES.find(candidate => candidate.from === from.id && candidate.to === to.id);
+      if (from === to) {
+        return [{
+          allergy,
+          kind: 'cross-reactive',
+          confidence: rule?.confidence ?? 'high',
+          allergenClass: to.name,
+          reason: `${allergy.substance} and ${drug} are both ${to.name}. ${rule?.note ?? 'Drugs in the same class share the allergenic structure.'}`,
+          source: rule?.source,
+        }];
+      }
+      return rule ? [{
+        allergy,
+        kind: 'cross-reactive',
+        confidence: rule.confidence,
+        allergenClass: to.name,
+        reason: `${allergy.substance} allergy (${from.name}) may cross-react with ${drug} (${to.name}). ${rule.note}`,
+        source: rule.source,
+      }] : [];
+    })
+  );
+  return candidates.sort((a, b) => CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence])[0];
+}
+
+/**
+ * Screens `drugName` against the recorded allergies. An allergy naming the
+ * drug or its allergen class is a direct match; one naming another member of
+ * the class, or a class with a known cross-sensitivity, is cross-reactive.
+ * Each allergy yields at most its strongest match.
+ */
+export function screenAllergies(drugName: string, allergies: AllergyEntry[]): AllergyScreening {
+  const drug = genericName(drugName);
+  const drugClasses = classesOf(drug);
+  const recorded = allergies.filter(allergy => allergy.substance.trim());
+  const matches = recorded
+    .map(allergy => screenAllergy(allergy, drug, drugClasses))
+    .filter((match): match is AllergyMatch => match !== undefined)
+    .sort((a, b) =>
+      Number(b.kind === 'direct') - Number(a.kind === 'direct') || CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence]
+    );
+  return { drug, screened: recorded.length, matches, tableVersion: ALLERGY_CLASSES_VERSION };
+}
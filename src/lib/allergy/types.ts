@@ -0,0 +1,44 @@
+import type { AllergyEntry } from '@/types/prediction';
+
+export type MatchConfidence = 'high' | 'moderate' | 'low';
+
+/** A group of drugs that share an allergenic structure (e.g. the beta-lactam ring of penicillins). */
+export interface AllergenClass {
+  id: string;
+  name: string;
+  /** Lowercase generic names in the class. */
+  members: string[];
+  /** How patients and records name an allergy to the class as a whole ("penicillin", "sulfa"). */
+  terms: string[];
+}
+
+/** Patients allergic to `from` may react to `to`. Not symmetric. */
+export interface CrossSensitivity {
+  from: string;
+  to: string;
+  confidence: MatchConfidence;
+  note: string;
+  source: string;
+}
+
+export type AllergyMatchKind = 'direct' | 'cross-reactive';
+
+export interface AllergyMatch {
+  allergy: AllergyEntry;
+  kind: AllergyMatchKind;
+  confidence: MatchConfidence;
+  /** Allergen class behind the match; undefined when the allergy names the drug itself. */
+  allergenClass?: string;
+  reason: string;
+  source?: string;
+}
+
+export interface AllergyScreening {
+  drug: string;
+  /** Number of recorded allergies screened. */
+  screened: number;
+  /** Strongest match per allergy, most certain first. */
+  matches: AllergyMatch[];
+  /** Version of the allergen table, so saved results record what they were screened against. */
+  tableVersion: string;
+}
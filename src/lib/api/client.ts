@@ -0,0 +1,167 @@
+import { getMockSettings, mockFetch } from '@/lib/api/mock';
+import { Schema, SchemaValidationError } from '@/lib/validation';
+import {
+  drugDocumentResponseSchema,
+  DrugDocumentResponse,
+  drugInfoResponseSchema,
+  DrugInfoResponse,
+  drugSuggestionsResponseSchema,
+  DrugSuggestionsResponse,
+  enhancedPredictionResponseSchema,
+  EnhancedPredictionResponse,
+  healthResponseSchema,
+  HealthResponse,
+  standardPredictionResponseSchema,
+  StandardPredictionResponse,
+  systemStatusSchema,
+  SystemStatus,
+} from '@/lib/api/schemas';
+
+// API Configuration - Use environment variable for production deployment
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+export interface AllergyPayload {
+  substance: string;
+  reaction: string;
+  severity: 'mild' | 'moderate' | 'severe' | 'unknown';
+}
+
+export interface CurrentMedicationPayload {
+  drug_name: string;
+  dose: string;
+  frequency: string;
+}
+
+export interface CodedConditionPayload {
+  icd10: string;
+  snomed: string;
+  display: string;
+}
+
+export interface GeneticMarkerPayload {
+  genotype: string;
+  phenotype: string;
+  activity_score: number;
+  drugs_affected: string[];
+}
+
+/** Patient-supplied genotypes, keyed by gene as the enhanced API returns them. */
+export interface GeneticProfilePayload {
+  source: 'uploaded';
+  genetic_markers: Record<string, GeneticMarkerPayload>;
+}
+
+export interface EnhancedPredictionRequest {
+  patient_id: string;
+  age: number;
+  gender: string;
+  height: number;
+  weight: number;
+  drug_name: string;
+  chronic_conditions: string;
+  /** `chronic_conditions` entries that map to a code; the text is still sent as entered. */
+  coded_conditions?: CodedConditionPayload[];
+  allergies: AllergyPayload[];
+  current_medications: CurrentMedicationPayload[];
+  genetic_profile?: GeneticProfilePayload;
+}
+
+export interface StandardPredictionRequest {
+  patient_age: number;
+  patient_gender: string;
+  patient_height_cm: number;
+  patient_weight_kg: number;
+  patient_diagnosis: string;
+  drug_name: string;
+  genetic_profile?: GeneticProfilePayload;
+}
+
+/**
+ * Raised when the backend cannot be reached (`status` is null) or answers
+ * with a non-2xx status.
+ */
+export class ApiError extends Error {
+  readonly endpoint: string;
+  readonly status: number | null;
+
+  constructor(endpoint: string, status: number | null, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  signal?: AbortSignal;
+  /** Defaults to the prediction backend; '' targets this app's own routes. */
+  baseUrl?: string;
+}
+
+async function request<T>(endpoint: string, schema: Schema<T>, options: RequestOptions = {}): Promise<T> {
+  const init = {
+    method: options.method ?? 'GET',
+    headers: options.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    signal: options.signal,
+  };
+  // Mock mode replaces the prediction backend only, never the app's own routes
+  const mocked = options.baseUrl === undefined && getMockSettings().enabled;
+
+  let response: Response;
+  try {
+    response = mocked ? await mockFetch(endpoint, init) : await fetch(`${options.baseUrl ?? API_BASE_URL}${endpoint}`, init);
+  } catch (error) {
+    if ((error as Error)?.name === 'AbortError') throw error;
+    throw new ApiError(endpoint, null, `Could not reach ${endpoint}: ${(error as Error).message}`);
+  }
+
+  if (!response.ok) {
+    throw new ApiError(endpoint, response.status, `${endpoint} responded with ${response.status} ${response.statusText}`);
+  }
+
+  let payload: unknown;
+  try {
+    payload = await response.json();
+  } catch {
+    const error = new SchemaValidationError('', 'JSON body', 'unparseable response');
+    error.message = `${endpoint}: ${error.message}`;
+    throw error;
+  }
+
+  try {
+    return schema.parse(payload);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      error.message = `${endpoint}: ${error.message}`;
+    }
+    throw error;
+  }
+}
+
+export const checkHealth = (signal?: AbortSignal): Promise<HealthResponse> =>
+  request('/', healthResponseSchema, { signal });
+
+export const getSystemStatus = (): Promise<SystemStatus> =>
+  request('/system-status', systemStatusSchema);
+
+export const predictEnhanced = (body: EnhancedPredictionRequest): Promise<EnhancedPredictionResponse> =>
+  request('/predict/enhanced', enhancedPredictionResponseSchema, { method: 'POST', body });
+
+export const predictStandard = (body: StandardPredictionRequest): Promise<StandardPredictionResponse> =>
+  request('/predict', standardPredictionResponseSchema, { method: 'POST', body });
+
+export const getDrugInfo = (drugName: string): Promise<DrugInfoResponse> =>
+  request(`/drug-info/${encodeURIComponent(drugName)}`, drugInfoResponseSchema);
+
+// Same-origin route handlers that combine the backend with RxNorm, openFDA
+// and PubChem on the server; the browser never calls those APIs directly.
+
+export const getDrugDocument = (drugName: string): Promise<DrugDocumentResponse> =>
+  request(`/api/drugs/${encodeURIComponent(drugName)}`, drugDocumentResponseSchema, { baseUrl: '' });
+
+export const searchDrugs = (term: string, signal?: AbortSignal): Promise<DrugSuggestionsResponse> =>
+  request(`/api/drugs/autocomplete?q=${encodeURIComponent(term)}`, drugSuggestionsResponseSchema, { signal, baseUrl: '' });
+
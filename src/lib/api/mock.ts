@@ -0,0 +1,163 @@
+import {
+  drugInfoFixtures,
+  enhancedPredictionFixtures,
+  healthFixture,
+  malformedFixtures,
+  MockOutcome,
+  standardPredictionFixtures,
+  systemStatusFixture,
+} from '@/data/mockBackend';
+
+// Built-in mock of the prediction backend. When enabled, `request` in the
+// API client answers from recorded fixtures instead of NEXT_PUBLIC_API_URL,
+// so the UI can be worked on while the Python service is down.
+
+export type MockScenario = 'effective' | 'ineffective' | 'risky' | 'fallback' | 'slow' | 'malformed';
+
+export interface MockSettings {
+  enabled: boolean;
+  scenario: MockScenario;
+}
+
+const LATENCY_MS = 150;
+// Kept under the 3 s health-check timeout so the status line still connects
+const SLOW_LATENCY_MS = 2500;
+
+export const MOCK_SCENARIOS: Record<MockScenario, { label: string; description: string }> = {
+  effective: { label: 'Effective', description: 'The enhanced API predicts an effective response' },
+  ineffective: { label: 'Ineffective', description: 'The enhanced API predicts a reduced response' },
+  risky: { label: 'Risky/Adverse', description: 'The enhanced API predicts a high risk of adverse effects' },
+  fallback: { label: 'Enhanced → standard fallback', description: '/predict/enhanced answers 503 and /predict responds instead' },
+  slow: { label: 'Slow responses', description: `Every response takes ${SLOW_LATENCY_MS / 1000} s` },
+  malformed: { label: 'Malformed payloads', description: 'Status, prediction and drug-info payloads fail validation' },
+};
+
+const STORAGE_KEY = 'mock-api';
+const CHANGE_EVENT = 'mock-api-change';
+
+const isScenario = (value: unknown): value is MockScenario =>
+  typeof value === 'string' && value in MOCK_SCENARIOS;
+
+// NEXT_PUBLIC_MOCK_API=<scenario> (or "true") turns mock mode on by default;
+// on the server it is the only switch, so route handlers follow it too.
+function defaultSettings(): MockSettings {
+  const configured = process.env.NEXT_PUBLIC_MOCK_API;
+  return {
+    enabled: Boolean(configured) && configured !== 'false',
+    scenario: isScenario(configured) ? configured : 'effective',
+  };
+}
+
+let current: MockSettings | null = null;
+
+function loadSettings(): MockSettings {
+  const settings = defaultSettings();
+  if (typeof window === 'undefined') return settings;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (typeof stored?.enabled === 'boolean') settings.enabled = stored.enabled;
+    if (isScenario(stored?.scenario)) settings.scenario = stored.scenario;
+  } catch {
+    // Ignore unreadable settings and keep the defaults
+  }
+  // ?mock=<scenario> or ?mock=off overrides for a shareable link
+  const param = new URLSearchParams(window.location.search).get('mock');
+  if (param === 'off') settings.enabled = false;
+  else if (param !== null) {
+    settings.enabled = true;
+    if (isScenario(param)) settings.scenario = param;
+  }
+  return settings;
+}
+
+export function getMockSettings(): MockSettings {
+  if (typeof window === 'undefined') return defaultSettings();
+  current ??= loadSettings();
+  return current;
+}
+
+export function setMockSettings(settings: MockSettings): void {
+  current = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Private browsing: the setting lasts until reload
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/** Calls `listener` whenever mock mode is switched; returns the unsubscribe. */
+export function subscribeMockSettings(listener: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : status === 404 ? 'Not Found' : 'Service Unavailable',
+    headers: { 'Content-Type': 'application/json', 'X-Mock-Scenario': getMockSettings().scenario },
+  });
+
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+const outcomeOf = (scenario: MockScenario): MockOutcome =>
+  scenario === 'ineffective' || scenario === 'risky' ? scenario : 'effective';
+
+function route(endpoint: string, scenario: MockScenario, body: Record<string, unknown>): Response {
+  const malformed = scenario === 'malformed';
+  const outcome = outcomeOf(scenario);
+  const path = endpoint.split('?')[0];
+
+  if (path === '/') return json(healthFixture);
+  if (path === '/system-status') return json(malformed ? malformedFixtures.systemStatus : systemStatusFixture);
+
+  if (path === '/predict/enhanced') {
+    if (scenario === 'fallback') return json({ error: 'Enhanced model is not loaded' }, 503);
+    if (malformed) return json(malformedFixtures.enhancedPrediction);
+    const fixture = enhancedPredictionFixtures[outcome];
+    return json({
+      ...fixture,
+      patient_data: {
+        ...(fixture.patient_data as object | undefined),
+        allergies: body.allergies,
+        current_medications: body.current_medications,
+      },
+    });
+  }
+
+  if (path === '/predict') {
+    if (malformed) return json(malformedFixtures.standardPrediction);
+    return json({ ...standardPredictionFixtures[outcome], drug_name: body.drug_name });
+  }
+
+  if (path.startsWith('/drug-info/')) {
+    if (malformed) return json(malformedFixtures.drugInfo);
+    const drug = decodeURIComponent(path.slice('/drug-info/'.length)).trim().toLowerCase();
+    const fixture = drugInfoFixtures[drug];
+    return fixture ? json({ data: fixture }) : json({ error: `No drug information for ${drug}` }, 404);
+  }
+
+  return json({ error: `Mock backend has no fixture for ${path}` }, 404);
+}
+
+/**
+ * Answers a backend request from the fixtures for the active scenario, with
+ * simulated latency. Honors `signal` like fetch does.
+ */
+export async function mockFetch(endpoint: string, init: { body?: string; signal?: AbortSignal }): Promise<Response> {
+  const { scenario } = getMockSettings();
+  await wait(scenario === 'slow' ? SLOW_LATENCY_MS : LATENCY_MS, init.signal);
+  const body = init.body ? JSON.parse(init.body) : {};
+  console.log(`🧪 MOCK ${scenario}: ${endpoint}`);
+  return route(endpoint, scenario, body);
+}
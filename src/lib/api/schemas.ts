@@ -0,0 +1,277 @@
+import {
+  array,
+  boolean,
+  Infer,
+  joinPath,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  Schema,
+  SchemaValidationError,
+  string,
+  transform,
+  unknown,
+} from '@/lib/validation';
+
+// Response schemas for the prediction backend. Fields the UI depends on are
+// required; purely informational fields are optional.
+
+/**
+ * The backend reports the outcome under either `prediction_label` or
+ * `prediction`. Requires one of them and exposes it as `label`.
+ */
+const withLabel = <T extends { prediction_label?: string; prediction?: string }>(schema: Schema<T>) =>
+  transform(schema, (value, path) => {
+    const label = value.prediction_label ?? value.prediction;
+    if (!label) throw new SchemaValidationError(joinPath(path, 'prediction_label'), 'non-empty string', undefined);
+    return { ...value, label };
+  });
+
+export const healthResponseSchema = object({
+  status: optional(string()),
+  message: optional(string()),
+});
+
+export const systemStatusSchema = object({
+  version: string(),
+  status: optional(string()),
+  components: optional(object({
+    ml_model: optional(boolean()),
+    real_data_integration: optional(boolean()),
+  })),
+});
+
+const geneticMarkerSchema = object({
+  genotype: string(),
+  phenotype: string(),
+  activity_score: number({ min: 0 }),
+  drugs_affected: optional(array(string())),
+});
+
+const allergySchema = object({
+  substance: string({ nonEmpty: true }),
+  reaction: optional(string()),
+  severity: optional(string()),
+});
+
+const currentMedicationSchema = object({
+  drug_name: string({ nonEmpty: true }),
+  dose: optional(string()),
+  frequency: optional(string()),
+});
+
+export const enhancedPredictionResponseSchema = object({
+  prediction: withLabel(object({
+    prediction_label: optional(string({ nonEmpty: true })),
+    prediction: optional(string({ nonEmpty: true })),
+    confidence: number({ min: 0, max: 1 }),
+    reasoning: optional(string()),
+  })),
+  patient_data: optional(object({
+    demographics: optional(record(unknown())),
+    current_vitals: optional(record(unknown())),
+    medical_history: optional(array(string())),
+    allergies: optional(array(allergySchema)),
+    current_medications: optional(array(currentMedicationSchema)),
+  })),
+  genetic_profile: optional(object({
+    genetic_markers: optional(record(geneticMarkerSchema)),
+  })),
+  drug_info: optional(object({
+    rxnorm_data: optional(record(unknown())),
+    fda_data: optional(record(unknown())),
+    interactions: optional(record(unknown())),
+    dosage_info: optional(record(unknown())),
+  })),
+  clinical_recommendations: optional(array(string())),
+  explanation: optional(string()),
+  analysis_summary: optional(string()),
+});
+
+export const medicineSuitabilitySchema = object({
+  overall_suitability: object({
+    status: string(),
+    score: number({ min: 0, max: 100 }),
+    color: string(),
+    recommendation: string(),
+    confidence: number({ min: 0, max: 1 }),
+  }),
+  assessment_factors: array(object({
+    factor: string(),
+    impact: string(),
+    description: string(),
+    recommendation: string(),
+  })),
+  safety_information: object({
+    warnings: array(string()),
+    interactions: object({
+      has_interactions: boolean(),
+      interaction_count: number({ min: 0 }),
+      recommendation: string(),
+    }),
+    monitoring_required: boolean(),
+  }),
+  personalized_recommendations: array(string()),
+  next_steps: array(string()),
+  emergency_contact: string(),
+});
+
+export const standardPredictionResponseSchema = withLabel(object({
+  prediction_label: optional(string({ nonEmpty: true })),
+  prediction: optional(string({ nonEmpty: true })),
+  confidence: number({ min: 0, max: 1 }),
+  drug_name: optional(string()),
+  patient_data: optional(object({
+    bmi: optional(number({ min: 0 })),
+  })),
+  explanation: optional(string()),
+  analysis_summary: optional(string()),
+  medicine_suitability: optional(medicineSuitabilitySchema),
+  genetic_markers: optional(array(object({
+    gene: string(),
+    genotype: string(),
+    phenotype: string(),
+    activityScore: number({ min: 0 }),
+    drugsAffected: array(string()),
+    clinicalSignificance: string(),
+  }))),
+}));
+
+const drugBankSchema = object({
+  indication: optional(string()),
+  mechanism_of_action: optional(string()),
+  pharmacodynamics: optional(string()),
+  warnings: optional(array(string())),
+});
+
+const rxNormSchema = object({
+  found: boolean(),
+  concepts: array(object({
+    rxcui: string(),
+    name: optional(string()),
+    tty: optional(string()),
+  })),
+  total_concepts: number({ min: 0 }),
+});
+
+export const FDA_LABEL_SECTION_IDS = [
+  'boxed_warning',
+  'indications',
+  'dosage',
+  'contraindications',
+  'warnings',
+  'adverse_reactions',
+  'drug_interactions',
+  'specific_populations',
+] as const;
+
+const fdaLabelSectionSchema = object({
+  id: oneOf(FDA_LABEL_SECTION_IDS),
+  title: string(),
+  /** For a boxed warning, its "WARNING: ..." heading. */
+  headline: optional(string()),
+  blocks: array(object({
+    /** Label subsection number, e.g. "8.1". */
+    number: optional(string()),
+    text: string(),
+    bullets: array(string()),
+  })),
+});
+
+const fdaSchema = object({
+  found: boolean(),
+  sections: optional(array(fdaLabelSectionSchema)),
+  generic_name: optional(array(string())),
+  brand_name: optional(array(string())),
+  indications: optional(array(string())),
+  warnings: optional(array(string())),
+  dosage: optional(array(string())),
+  contraindications: optional(array(string())),
+});
+
+const pubChemSchema = object({
+  found: boolean(),
+  molecular_formula: optional(string()),
+  molecular_weight: optional(string()),
+  canonical_smiles: optional(string()),
+  isomeric_smiles: optional(string()),
+});
+
+const drugInfoShape = {
+  drug_name: optional(string()),
+  sources: optional(array(string())),
+  real_time_data: optional(boolean()),
+  drugbank: optional(drugBankSchema),
+  rxnorm: optional(rxNormSchema),
+  fda: optional(fdaSchema),
+  pubchem: optional(pubChemSchema),
+};
+
+export const drugInfoSchema = object(drugInfoShape);
+
+export const drugInfoResponseSchema = object({
+  data: drugInfoSchema,
+});
+
+// Responses of the app's own /api/drugs route handlers, which aggregate the
+// backend and the public drug APIs on the server.
+
+export const DRUG_DATA_SOURCES = ['backend', 'rxnorm', 'fda', 'pubchem'] as const;
+
+const drugProvenanceSchema = object({
+  source: oneOf(DRUG_DATA_SOURCES),
+  label: string(),
+  url: string(),
+  status: oneOf(['found', 'not-found', 'unavailable'] as const),
+  /** ISO time of the upstream response; older than the document when served from cache. */
+  retrieved_at: string(),
+  error: optional(string()),
+});
+
+export const drugDocumentSchema = object({
+  ...drugInfoShape,
+  drug_name: string({ nonEmpty: true }),
+  provenance: array(drugProvenanceSchema),
+});
+
+export const drugDocumentResponseSchema = object({
+  data: drugDocumentSchema,
+});
+
+const suggestionHitSchema = object({
+  name: string({ nonEmpty: true }),
+  source: oneOf(['rxnorm', 'pubchem'] as const),
+  identifier: optional(object({
+    system: oneOf(['RxCUI', 'CID', 'local'] as const),
+    value: string(),
+  })),
+  relevance: number({ min: 0, max: 1 }),
+});
+
+export const drugSuggestionsResponseSchema = object({
+  query: string(),
+  hits: array(suggestionHitSchema),
+  provenance: array(object({
+    source: oneOf(['rxnorm', 'pubchem'] as const),
+    label: string(),
+    status: oneOf(['ok', 'unavailable'] as const),
+    error: optional(string()),
+  })),
+});
+
+export type HealthResponse = Infer<typeof healthResponseSchema>;
+export type SystemStatus = Infer<typeof systemStatusSchema>;
+export type EnhancedPredictionResponse = Infer<typeof enhancedPredictionResponseSchema>;
+export type StandardPredictionResponse = Infer<typeof standardPredictionResponseSchema>;
+export type MedicineSuitability = Infer<typeof medicineSuitabilitySchema>;
+export type DrugInfo = Infer<typeof drugInfoSchema>;
+export type DrugInfoResponse = Infer<typeof drugInfoResponseSchema>;
+export type FdaLabelSectionId = (typeof FDA_LABEL_SECTION_IDS)[number];
+export type FdaLabelSection = Infer<typeof fdaLabelSectionSchema>;
+export type DrugDataSource = (typeof DRUG_DATA_SOURCES)[number];
+export type DrugProvenance = Infer<typeof drugProvenanceSchema>;
+export type DrugDocument = Infer<typeof drugDocumentSchema>;
+export type DrugDocumentResponse = Infer<typeof drugDocumentResponseSchema>;
+export type DrugSuggestionsResponse = Infer<typeof drugSuggestionsResponseSchema>;
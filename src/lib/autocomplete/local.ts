@@ -0,0 +1,21 @@
+import { searchKnowledgeBase } from '@/lib/drugs/knowledgeBase';
+import type { AutocompleteProvider } from '@/lib/autocomplete/types';
+
+const titleCase = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+// Offline provider over the knowledge base monographs, matching brand names
+// and synonyms too; always available.
+export const localProvider: AutocompleteProvider = {
+  source: 'local',
+  label: 'Local',
+  async search(term) {
+    const needle = term.trim().toLowerCase();
+    if (!needle) return [];
+    return searchKnowledgeBase(needle).map(drug => ({
+      name: titleCase(drug.name),
+      source: 'local' as const,
+      identifier: { system: 'local' as const, value: drug.name },
+      relevance: drug.name.startsWith(needle) ? 1 : 0.5,
+    }));
+  },
+};
@@ -0,0 +1,46 @@
+import type { AutocompleteProvider, ProviderSuggestion } from '@/lib/autocomplete/types';
+
+const PUBCHEM_AUTOCOMPLETE_BASE =
+  'https://pubchem.ncbi.nlm.nih.gov/rest/autocomplete/Compound/query/';
+const PUBCHEM_CID_BASE = 'https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/name/';
+
+// Only the top few hits get a CID lookup to keep the request count bounded
+const CID_LOOKUP_LIMIT = 5;
+
+async function lookupCid(name: string, signal: AbortSignal): Promise<string | undefined> {
+  const resp = await fetch(`${PUBCHEM_CID_BASE}${encodeURIComponent(name)}/cids/JSON`, { signal });
+  if (!resp.ok) return undefined;
+  const data = await resp.json();
+  const cid = data?.IdentifierList?.CID?.[0];
+  return typeof cid === 'number' ? String(cid) : undefined;
+}
+
+// PubChem covers arbitrary chemical compounds, so its hits rank below
+// prescribable-medicine sources.
+export const pubChemProvider: AutocompleteProvider = {
+  source: 'pubchem',
+  label: 'PubChem',
+  async search(term, signal) {
+    // PubChem autocomplete: .../query/[QUERY]/json
+    const resp = await fetch(`${PUBCHEM_AUTOCOMPLETE_BASE}${encodeURIComponent(term)}/json`, { signal });
+    if (!resp.ok) throw new Error(`PubChem HTTP ${resp.status}`);
+    const data = await resp.json();
+    const names: string[] = Array.isArray(data?.dictionary_terms?.compound)
+      ? data.dictionary_terms.compound.slice(0, 10)
+      : [];
+
+    const cids = await Promise.allSettled(
+      names.slice(0, CID_LOOKUP_LIMIT).map(name => lookupCid(name, signal))
+    );
+
+    return names.map((name, index): ProviderSuggestion => {
+      const cid = cids[index]?.status === 'fulfilled' ? cids[index].value : undefined;
+      return {
+        name,
+        source: 'pubchem',
+        identifier: cid ? { system: 'CID', value: cid } : undefined,
+        relevance: 1 - index / names.length,
+      };
+    });
+  },
+};
@@ -0,0 +1,79 @@
+import type { AutocompleteProvider, ProviderSuggestion } from '@/lib/autocomplete/types';
+import { cachedFetch } from '@/lib/drugCache';
+
+const RXNAV_BASE = 'https://rxnav.nlm.nih.gov/REST';
+
+interface ApproximateCandidate {
+  rxcui?: string;
+  name?: string;
+  score?: string;
+  source?: string;
+}
+
+// The RxTerms display-name list (~30k entries) is fetched through the shared
+// drug cache, so it survives reloads, and filtered locally.
+function loadDisplayNames(): Promise<string[]> {
+  return cachedFetch('rxnorm-displaynames', 'all', async () => {
+    const resp = await fetch(`${RXNAV_BASE}/Prescribe/displaynames.json`);
+    if (!resp.ok) throw new Error(`RxNorm displaynames HTTP ${resp.status}`);
+    const data = await resp.json();
+    return Array.isArray(data?.displayTermsList?.term) ? data.displayTermsList.term : [];
+  });
+}
+
+async function approximateTerm(term: string, signal: AbortSignal): Promise<ApproximateCandidate[]> {
+  const resp = await fetch(
+    `${RXNAV_BASE}/approximateTerm.json?term=${encodeURIComponent(term)}&maxEntries=20`,
+    { signal, headers: { Accept: 'application/json' } }
+  );
+  if (!resp.ok) throw new Error(`RxNorm approximateTerm HTTP ${resp.status}`);
+  const data = await resp.json();
+  return Array.isArray(data?.approximateGroup?.candidate) ? data.approximateGroup.candidate : [];
+}
+
+// Prescribable medicines from RxNorm: display names for prefix matching,
+// approximate-term candidates for RxCUIs and spelling tolerance.
+export const rxNormProvider: AutocompleteProvider = {
+  source: 'rxnorm',
+  label: 'RxNorm',
+  async search(term, signal) {
+    const needle = term.trim().toLowerCase();
+    const [displayNames, candidates] = await Promise.allSettled([
+      loadDisplayNames(),
+      approximateTerm(term, signal),
+    ]);
+    if (displayNames.status === 'rejected' && candidates.status === 'rejected') {
+      throw candidates.reason;
+    }
+
+    const rxcuiByName = new Map<string, string>();
+    const results: ProviderSuggestion[] = [];
+    if (candidates.status === 'fulfilled') {
+      for (const candidate of candidates.value) {
+        if (!candidate.rxcui || !candidate.name || candidate.source !== 'RXNORM') continue;
+        const key = candidate.name.toLowerCase();
+        if (rxcuiByName.has(key)) continue;
+        rxcuiByName.set(key, candidate.rxcui);
+        results.push({
+          name: candidate.name,
+          source: 'rxnorm',
+          identifier: { system: 'RxCUI', value: candidate.rxcui },
+          relevance: Math.min(1, Number(candidate.score ?? 0) / 100),
+        });
+      }
+    }
+
+    if (displayNames.status === 'fulfilled') {
+      const matches = displayNames.value
+        .filter(name => name.toLowerCase().startsWith(needle))
+        .slice(0, 10);
+      for (const name of matches) {
+        const rxcui = rxcuiByName.get(name.toLowerCase());
+        if (rxcui) continue; // already listed from approximateTerm
+        results.push({ name, source: 'rxnorm', relevance: 0.9 });
+      }
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,108 @@
+import { localProvider } from '@/lib/autocomplete/local';
+import { serverProvider } from '@/lib/autocomplete/server';
+import type {
+  AutocompleteProvider,
+  DrugSuggestion,
+  ProviderSource,
+  ProviderSuggestion,
+  SuggestionSource,
+} from '@/lib/autocomplete/types';
+import { abortable, cachedFetch, CacheSource } from '@/lib/drugCache';
+
+// The browser searches its offline list and the app's autocomplete route;
+// the RxNorm and PubChem providers run behind that route on the server.
+export const defaultProviders: AutocompleteProvider[] = [localProvider, serverProvider];
+
+// Prescribable-medicine sources outrank the general chemical index
+const SOURCE_WEIGHT: Record<SuggestionSource, number> = {
+  local: 0.3,
+  rxnorm: 0.2,
+  pubchem: 0,
+};
+
+// Remote providers go through the shared drug cache, keyed by search term
+const CACHE_SOURCES: Partial<Record<ProviderSource, CacheSource>> = {
+  rxnorm: 'autocomplete-rxnorm',
+  pubchem: 'autocomplete-pubchem',
+  server: 'drug-suggestions',
+};
+
+export function searchProvider(provider: AutocompleteProvider, term: string, signal: AbortSignal): Promise<ProviderSuggestion[]> {
+  const cacheSource = CACHE_SOURCES[provider.source];
+  if (!cacheSource) return provider.search(term, signal);
+  // The shared request outlives this keystroke so other callers and the cache still get it
+  const shared = cachedFetch(cacheSource, term, () => provider.search(term, new AbortController().signal));
+  return abortable(shared, signal);
+}
+
+const matchScore = (name: string, needle: string) => {
+  const hay = name.toLowerCase();
+  if (hay === needle) return 1;
+  if (hay.startsWith(needle)) return 0.8;
+  if (hay.split(/[\s/-]+/).some(word => word.startsWith(needle))) return 0.6;
+  if (hay.includes(needle)) return 0.4;
+  return 0;
+};
+
+/**
+ * Merges hits from several providers by case-insensitive name, keeping every
+ * source and identifier, and orders them by match quality, provider
+ * relevance, source weight and cross-source agreement.
+ */
+export function rankSuggestions(term: string, hits: ProviderSuggestion[], limit = 10): DrugSuggestion[] {
+  const needle = term.trim().toLowerCase();
+  const merged = new Map<string, DrugSuggestion>();
+
+  for (const hit of hits) {
+    const key = hit.name.trim().toLowerCase();
+    const score = matchScore(hit.name, needle) + hit.relevance * 0.5 + SOURCE_WEIGHT[hit.source];
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, {
+        name: hit.name.trim(),
+        sources: [hit.source],
+        identifiers: hit.identifier ? [hit.identifier] : [],
+        score,
+      });
+      continue;
+    }
+    if (!existing.sources.includes(hit.source)) {
+      existing.sources.push(hit.source);
+      existing.score += 0.1;
+    }
+    if (hit.identifier && !existing.identifiers.some(id => id.system === hit.identifier!.system)) {
+      existing.identifiers.push(hit.identifier);
+    }
+    if (score > existing.score) existing.score = score;
+  }
+
+  return [...merged.values()]
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * Queries all providers in parallel. Individual provider failures are
+ * tolerated; the lookup only fails when every provider fails.
+ */
+export async function searchDrugSuggestions(
+  term: string,
+  providers: AutocompleteProvider[],
+  signal: AbortSignal,
+  limit?: number,
+): Promise<DrugSuggestion[]> {
+  const settled = await Promise.allSettled(providers.map(provider => searchProvider(provider, term, signal)));
+  const hits: ProviderSuggestion[] = [];
+  const failures: string[] = [];
+
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') hits.push(...result.value);
+    else failures.push(`${providers[index].label}: ${(result.reason as Error)?.message ?? result.reason}`);
+  });
+
+  if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+  if (providers.length > 0 && failures.length === providers.length) {
+    throw new Error(failures.join('; '));
+  }
+  return rankSuggestions(term, hits, limit);
+}
@@ -0,0 +1,16 @@
+import { searchDrugs } from '@/lib/api/client';
+import type { AutocompleteProvider } from '@/lib/autocomplete/types';
+
+// RxNorm and PubChem via /api/drugs/autocomplete, which queries both on the
+// server. Hits keep their original source so they rank and badge as before.
+export const serverProvider: AutocompleteProvider = {
+  source: 'server',
+  label: 'RxNorm and PubChem',
+  async search(term, signal) {
+    const { hits, provenance } = await searchDrugs(term, signal);
+    for (const entry of provenance) {
+      if (entry.status === 'unavailable') console.log(`${entry.label} suggestions unavailable:`, entry.error);
+    }
+    return hits;
+  },
+};
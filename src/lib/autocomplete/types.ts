@@ -0,0 +1,32 @@
+export type SuggestionSource = 'local' | 'rxnorm' | 'pubchem';
+
+export interface SuggestionIdentifier {
+  system: 'RxCUI' | 'CID' | 'local';
+  value: string;
+}
+
+/** A single provider hit, before merging. */
+export interface ProviderSuggestion {
+  name: string;
+  source: SuggestionSource;
+  identifier?: SuggestionIdentifier;
+  /** Provider-relative relevance in [0, 1]; 1 is the best match. */
+  relevance: number;
+}
+
+/** A merged, de-duplicated suggestion as shown in the dropdown. */
+export interface DrugSuggestion {
+  name: string;
+  sources: SuggestionSource[];
+  identifiers: SuggestionIdentifier[];
+  score: number;
+}
+
+/** 'server' relays RxNorm and PubChem hits from the app's own route. */
+export type ProviderSource = SuggestionSource | 'server';
+
+export interface AutocompleteProvider {
+  source: ProviderSource;
+  label: string;
+  search(term: string, signal: AbortSignal): Promise<ProviderSuggestion[]>;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { batchResultsCsv, guessColumnMapping, rowToFormData } from '@/lib/batch';
+
+const headers = ['drug', 'sex', 'age', 'weight', 'height', 'child_pugh'];
+const mapping = guessColumnMapping(headers);
+const row = (hepatic: string) => ['metformin', 'F', '60', '70', '165', hepatic];
+
+describe('rowToFormData', () => {
+  it('reads blank and Child-Pugh hepatic grades', () => {
+    expect(rowToFormData(row(''), mapping).hepaticImpairment).toBe('none');
+    expect(rowToFormData(row('B'), mapping).hepaticImpairment).toBe('moderate');
+  });
+
+  it('fails the row on an unrecognised hepatic grade instead of reading it as none', () => {
+    expect(() => rowToFormData(row('cirrhosis'), mapping)).toThrow('Unrecognised hepatic impairment "cirrhosis"');
+    expect(() => rowToFormData(row('constructor'), mapping)).toThrow('Unrecognised hepatic impairment');
+  });
+});
+
+describe('batchResultsCsv', () => {
+  it('neutralises cells that a spreadsheet would evaluate as a formula', () => {
+    const csv = batchResultsCsv(['drug'], [
+      { index: 0, values: ['=HYPERLINK("x")'], status: 'pending' },
+      { index: 1, values: ['\t=1+1'], status: 'pending' },
+      { index: 2, values: ['\r@SUM(A1)'], status: 'pending' },
+    ]);
+    const lines = csv.split('\r\n');
+    expect(lines[1].startsWith(`"'=HYPERLINK`)).toBe(true);
+    expect(lines[2].startsWith(`'\t=1+1`)).toBe(true);
+    expect(lines[3].startsWith(`"'\r@SUM`)).toBe(true);
+  });
+});
@@ -0,0 +1,146 @@
+import { toCsv } from '@/lib/csv';
+import type { HepaticImpairment } from '@/lib/dosing/types';
+import { predictedClassOf } from '@/lib/report';
+import type { PatientFormData, PredictionResult } from '@/types/prediction';
+
+/** Form fields a CSV column can be mapped to. */
+export type BatchField =
+  | 'medicineName'
+  | 'gender'
+  | 'age'
+  | 'weight'
+  | 'height'
+  | 'serumCreatinine'
+  | 'hepaticImpairment'
+  | 'chronicConditions'
+  | 'allergies'
+  | 'currentMedications';
+
+export interface BatchFieldSpec {
+  field: BatchField;
+  label: string;
+  required: boolean;
+  /** Lowercase header names recognised when guessing the mapping. */
+  aliases: string[];
+}
+
+export const BATCH_FIELDS: BatchFieldSpec[] = [
+  { field: 'medicineName', label: 'Medicine', required: true, aliases: ['medicine', 'drug', 'drug_name', 'medication', 'medicine_name'] },
+  { field: 'gender', label: 'Gender', required: true, aliases: ['gender', 'sex'] },
+  { field: 'age', label: 'Age (years)', required: true, aliases: ['age', 'age_years'] },
+  { field: 'weight', label: 'Weight (kg)', required: true, aliases: ['weight', 'weight_kg', 'wt'] },
+  { field: 'height', label: 'Height (cm)', required: true, aliases: ['height', 'height_cm', 'ht'] },
+  { field: 'serumCreatinine', label: 'Serum creatinine (mg/dL)', required: false, aliases: ['serum_creatinine', 'creatinine', 'scr'] },
+  { field: 'hepaticImpairment', label: 'Hepatic impairment', required: false, aliases: ['hepatic_impairment', 'hepatic', 'child_pugh'] },
+  { field: 'chronicConditions', label: 'Chronic conditions', required: false, aliases: ['chronic_conditions', 'conditions', 'diagnosis', 'diagnoses'] },
+  { field: 'allergies', label: 'Allergies (; separated)', required: false, aliases: ['allergies', 'allergy'] },
+  { field: 'currentMedications', label: 'Current medications (; separated)', required: false, aliases: ['current_medications', 'medications', 'current_meds'] },
+];
+
+/** Column index per field; `null` when the field is not mapped. */
+export type ColumnMapping = Record<BatchField, number | null>;
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchRow {
+  /** Position in the uploaded file, excluding the header row. */
+  index: number;
+  values: string[];
+  status: BatchRowStatus;
+  result?: PredictionResult;
+  error?: string;
+}
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalised = headers.map(normaliseHeader);
+  return Object.fromEntries(BATCH_FIELDS.map(spec => {
+    const index = normalised.findIndex(header => spec.aliases.includes(header));
+    return [spec.field, index === -1 ? null : index];
+  })) as ColumnMapping;
+}
+
+export function missingRequiredFields(mapping: ColumnMapping): BatchFieldSpec[] {
+  return BATCH_FIELDS.filter(spec => spec.required && mapping[spec.field] === null);
+}
+
+const GENDER_VALUES: Record<string, string> = { m: 'male', male: 'male', f: 'female', female: 'female', o: 'other', other: 'other' };
+const HEPATIC_VALUES: Record<string, HepaticImpairment> = {
+  '': 'none', none: 'none', no: 'none', mild: 'mild', a: 'mild', moderate: 'moderate', b: 'moderate', severe: 'severe', c: 'severe',
+};
+
+const splitList = (value: string) => value.split(';').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Builds the same form data a clinician would have entered for this row.
+ * Values are not validated here; `validatePatientForm` does that before the
+ * prediction runs so the row fails with the familiar message. The one
+ * exception is hepatic impairment: the form has no way to enter an
+ * unrecognised grade, so one is rejected here rather than read as none.
+ */
+export function rowToFormData(values: string[], mapping: ColumnMapping): PatientFormData {
+  const read = (field: BatchField) => {
+    const index = mapping[field];
+    return index === null ? '' : (values[index] ?? '').trim();
+  };
+  const hepatic = read('hepaticImpairment');
+  const hepaticImpairment = Object.hasOwn(HEPATIC_VALUES, hepatic.toLowerCase()) ? HEPATIC_VALUES[hepatic.toLowerCase()] : undefined;
+  if (!hepaticImpairment) {
+    throw new Error(`Unrecognised hepatic impairment "${hepatic}"; use none, mild, moderate, severe or Child-Pugh A, B or C`);
+  }
+
+  return {
+    medicineName: read('medicineName'),
+    gender: GENDER_VALUES[read('gender').toLowerCase()] ?? '',
+    age: parseInt(read('age'), 10) || 0,
+    weight: read('weight'),
+    height: read('height'),
+    serumCreatinine: read('serumCreatinine'),
+    hepaticImpairment,
+    chronicConditions: read('chronicConditions'),
+    allergies: splitList(read('allergies')).map(substance => ({ substance, reaction: '', severity: 'unknown' })),
+    currentMedications: splitList(read('currentMedications')).map(drug => ({ drug, dose: '', frequency: '' })),
+    additionalMedicines: [],
+  };
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` in flight. The worker is
+ * expected to handle its own failures.
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+// Backend suitability warnings plus the local safety findings, which enhanced results rely on
+export const warningsCountOf = (result: PredictionResult) =>
+  (result.medicineSuitability?.safety_information.warnings.length ?? 0) + (result.warnings?.length ?? 0);
+
+export const BATCH_RESULT_COLUMNS = ['status', 'predicted_outcome', 'predicted_class', 'confidence', 'dosage', 'warnings_count', 'error'];
+
+/** The uploaded CSV with the result columns appended to every row. */
+export function batchResultsCsv(headers: string[], rows: BatchRow[]): string {
+  return toCsv([
+    [...headers, ...BATCH_RESULT_COLUMNS],
+    ...rows.map(row => {
+      const { result } = row;
+      return [
+        ...headers.map((_, index) => row.values[index] ?? ''),
+        row.status,
+        result?.prediction ?? '',
+        result ? predictedClassOf(result.prediction) : '',
+        result ? result.confidence.toFixed(3) : '',
+        result?.dosage ?? '',
+        result ? String(warningsCountOf(result)) : '',
+        row.error ?? '',
+      ];
+    }),
+  ]);
+}
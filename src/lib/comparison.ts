@@ -0,0 +1,118 @@
+import type { PatientFormData, PredictionResult } from '@/types/prediction';
+
+/** One side of a comparison: the inputs and the result they produced. */
+export interface ComparedRun {
+  formData: PatientFormData;
+  result: PredictionResult;
+}
+
+export interface ComparisonRow {
+  label: string;
+  left: string;
+  right: string;
+  changed: boolean;
+}
+
+export interface WarningsDiff {
+  onlyLeft: string[];
+  onlyRight: string[];
+  shared: string[];
+}
+
+export interface MarkerComparisonRow extends ComparisonRow {
+  gene: string;
+}
+
+export interface PredictionComparison {
+  inputs: ComparisonRow[];
+  outcome: ComparisonRow[];
+  /** right minus left, in percentage points */
+  confidenceDelta: number;
+  suitabilityDelta: number | null;
+  warnings: WarningsDiff;
+  markers: MarkerComparisonRow[];
+}
+
+const EMPTY = '—';
+
+const row = (label: string, left: string, right: string): ComparisonRow => ({
+  label,
+  left: left || EMPTY,
+  right: right || EMPTY,
+  changed: left.trim().toLowerCase() !== right.trim().toLowerCase(),
+});
+
+const bmiOf = (data: PatientFormData) => {
+  const weight = parseFloat(data.weight);
+  const height = parseFloat(data.height) / 100;
+  return weight > 0 && height > 0 ? (weight / (height * height)).toFixed(1) : '';
+};
+
+const INPUT_FIELDS: Array<[string, (data: PatientFormData) => string]> = [
+  ['Medicine', data => data.medicineName],
+  ['Gender', data => data.gender],
+  ['Age', data => String(data.age)],
+  ['Weight (kg)', data => data.weight],
+  ['Height (cm)', data => data.height],
+  ['BMI', bmiOf],
+  ['Serum creatinine (mg/dL)', data => data.serumCreatinine],
+  ['Hepatic impairment', data => data.hepaticImpairment],
+  ['Chronic conditions', data => data.chronicConditions],
+  ['Allergies', data => data.allergies.map(allergy => allergy.substance.trim()).filter(Boolean).join(', ')],
+  ['Current medications', data => data.currentMedications.map(medication => medication.drug.trim()).filter(Boolean).join(', ')],
+];
+
+// Backend suitability warnings plus the local boxed warning, allergy, contraindication and interaction findings
+const warningsOf = (result: PredictionResult) => [
+  ...(result.medicineSuitability?.safety_information.warnings ?? []),
+  ...(result.warnings ?? []),
+];
+
+const suitabilityScoreOf = (result: PredictionResult) => result.medicineSuitability?.overall_suitability.score ?? null;
+
+// Gene → one-line summary of its call
+const markersOf = (result: PredictionResult): Map<string, string> =>
+  new Map((result.geneticMarkers ?? []).map(marker => [
+    marker.gene,
+    `${marker.genotype} (${marker.phenotype}, activity ${marker.activityScore})`,
+  ]));
+
+export function diffWarnings(left: string[], right: string[]): WarningsDiff {
+  const rightSet = new Set(right);
+  const leftSet = new Set(left);
+  return {
+    onlyLeft: left.filter(warning => !rightSet.has(warning)),
+    onlyRight: right.filter(warning => !leftSet.has(warning)),
+    shared: left.filter(warning => rightSet.has(warning)),
+  };
+}
+
+export function comparePredictions(left: ComparedRun, right: ComparedRun): PredictionComparison {
+  const inputs = INPUT_FIELDS.map(([label, read]) => row(label, read(left.formData), read(right.formData)));
+
+  const leftScore = suitabilityScoreOf(left.result);
+  const rightScore = suitabilityScoreOf(right.result);
+  const outcome = [
+    row('Predicted outcome', left.result.prediction, right.result.prediction),
+    row('Confidence', `${(left.result.confidence * 100).toFixed(0)}%`, `${(right.result.confidence * 100).toFixed(0)}%`),
+    row('Dosage', left.result.dosage ?? '', right.result.dosage ?? ''),
+    row('Suitability score', leftScore === null ? '' : `${leftScore}%`, rightScore === null ? '' : `${rightScore}%`),
+  ];
+
+  const leftMarkers = markersOf(left.result);
+  const rightMarkers = markersOf(right.result);
+  const genes = [...new Set([...leftMarkers.keys(), ...rightMarkers.keys()])].sort();
+  const markers = genes.map(gene => ({
+    gene,
+    ...row(gene, leftMarkers.get(gene) ?? '', rightMarkers.get(gene) ?? ''),
+  }));
+
+  return {
+    inputs,
+    outcome,
+    confidenceDelta: Math.round((right.result.confidence - left.result.confidence) * 100),
+    suitabilityDelta: leftScore !== null && rightScore !== null ? rightScore - leftScore : null,
+    warnings: diffWarnings(warningsOf(left.result), warningsOf(right.result)),
+    markers,
+  };
+}
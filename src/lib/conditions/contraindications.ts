@@ -0,0 +1,47 @@
+import { CONDITION_CODES_VERSION } from '@/data/conditionCodes';
+import { CONTRAINDICATIONS_VERSION, DRUG_DISEASE_CONTRAINDICATIONS } from '@/data/drugDiseaseContraindications';
+import { parseConditions } from '@/lib/conditions/parse';
+import type { ContraindicationCheck, ContraindicationLevel, FlaggedContraindication } from '@/lib/conditions/types';
+import { matchesSubject, resolveDrug } from '@/lib/drugs/knowledgeBase';
+
+export const LEVEL_LABELS: Record<ContraindicationLevel, string> = {
+  contraindicated: 'Contraindicated',
+  caution: 'Use with caution',
+};
+
+const LEVEL_RANK: Record<ContraindicationLevel, number> = { contraindicated: 2, caution: 1 };
+
+/**
+ * Parses the chronic conditions text and flags every rule for `drugName`
+ * that one of the coded conditions triggers. A broader condition that is only
+ * implied (CKD from "CKD stage 4") is not flagged again when the specific
+ * condition already was.
+ */
+export function checkContraindications(drugName: string, chronicConditions: string): ContraindicationCheck {
+  const drug = resolveDrug(drugName);
+  const { conditions, unrecognised } = parseConditions(chronicConditions);
+
+  const flagged: FlaggedContraindication[] = DRUG_DISEASE_CONTRAINDICATIONS
+    .filter(rule => rule.drugs.some(subject => matchesSubject(subject, drug)))
+    .flatMap(rule => conditions
+      .filter(condition => rule.conditions.includes(condition.id))
+      .map(condition => ({
+        condition,
+        level: rule.level,
+        rationale: rule.rationale,
+        recommendation: rule.recommendation,
+        source: rule.source,
+      })));
+
+  const specific = flagged.filter(flag => !flag.condition.implied);
+  return {
+    drug: drug.name,
+    conditions,
+    unrecognised,
+    flagged: flagged
+      .filter(flag => !flag.condition.implied || !specific.some(other => other.condition.text === flag.condition.text))
+      .sort((a, b) => LEVEL_RANK[b.level] - LEVEL_RANK[a.level]),
+    tableVersion: CONTRAINDICATIONS_VERSION,
+    codeTableVersion: CONDITION_CODES_VERSION,
+  };
+}
@@ -0,0 +1,77 @@
+import { CONDITION_CODES } from '@/data/conditionCodes';
+import type { CodedCondition, ConditionDefinition, ParsedConditions } from '@/lib/conditions/types';
+
+const BY_ID = new Map(CONDITION_CODES.map(definition => [definition.id, definition]));
+
+// Entries that record the absence of a condition rather than a condition
+const EMPTY_ENTRY = /^(none|nil|n\/a|na|no known conditions?|nkc)$/;
+const NEGATED_ENTRY = /^(no|denies|without|negative for)\s/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface Span {
+  definition: ConditionDefinition;
+  start: number;
+  end: number;
+}
+
+// Every whole-word occurrence of a synonym or code in the entry
+function findSpans(entry: string): Span[] {
+  return CONDITION_CODES.flatMap(definition =>
+    [...definition.synonyms, definition.icd10.toLowerCase(), definition.snomed].flatMap(phrase => {
+      const pattern = new RegExp(`(^|[^a-z0-9])${escapeRegExp(phrase)}(?![a-z0-9])`, 'g');
+      return [...entry.matchAll(pattern)].map(match => {
+        const start = (match.index ?? 0) + match[1].length;
+        return { definition, start, end: start + phrase.length };
+      });
+    })
+  );
+}
+
+// Drops spans inside a longer span, so "ckd stage 4" does not also read as "ckd"
+const outermost = (spans: Span[]) =>
+  spans.filter(span => !spans.some(other =>
+    other !== span && other.start <= span.start && other.end >= span.end && other.end - other.start > span.end - span.start
+  ));
+
+const toCoded = (definition: ConditionDefinition, text: string, implied?: boolean): CodedCondition => ({
+  id: definition.id,
+  name: definition.name,
+  icd10: definition.icd10,
+  snomed: definition.snomed,
+  text,
+  ...(implied ? { implied } : {}),
+});
+
+/**
+ * Reads the comma-, semicolon- or line-separated chronic conditions text into
+ * coded conditions. Conditions implied by a more specific one are added
+ * after it. Entries such as "none" or "no asthma" are skipped; anything else
+ * that matches no code is returned as unrecognised.
+ */
+export function parseConditions(text: string): ParsedConditions {
+  const found = new Map<string, CodedCondition>();
+  const unrecognised: string[] = [];
+
+  for (const raw of text.split(/[,;\n]/)) {
+    const entry = raw.trim();
+    const key = entry.toLowerCase();
+    if (!key || EMPTY_ENTRY.test(key) || NEGATED_ENTRY.test(key)) continue;
+
+    const spans = outermost(findSpans(key));
+    if (spans.length === 0) {
+      unrecognised.push(entry);
+      continue;
+    }
+    for (const { definition } of spans) {
+      const existing = found.get(definition.id);
+      if (!existing || existing.implied) found.set(definition.id, toCoded(definition, entry));
+      for (const impliedId of definition.implies ?? []) {
+        const implied = BY_ID.get(impliedId);
+        if (implied && !found.has(impliedId)) found.set(impliedId, toCoded(implied, entry, true));
+      }
+    }
+  }
+
+  return { conditions: [...found.values()], unrecognised };
+}
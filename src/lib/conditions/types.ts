@@ -0,0 +1,62 @@
+import type { DrugSubject } from '@/lib/drugs/knowledgeBase';
+
+export interface ConditionDefinition {
+  id: string;
+  name: string;
+  /** ICD-10-CM code. */
+  icd10: string;
+  /** SNOMED CT concept id. */
+  snomed: string;
+  /** Lowercase phrases that name the condition in free text. */
+  synonyms: string[];
+  /** Broader conditions this one also counts as (severe CKD is CKD), so their rules apply too. */
+  implies?: string[];
+}
+
+export interface CodedCondition {
+  id: string;
+  name: string;
+  icd10: string;
+  snomed: string;
+  /** The free-text entry the condition was read from. */
+  text: string;
+  /** True when only implied by a more specific condition. */
+  implied?: boolean;
+}
+
+export interface ParsedConditions {
+  conditions: CodedCondition[];
+  /** Entries that matched no code, as entered. */
+  unrecognised: string[];
+}
+
+export type ContraindicationLevel = 'contraindicated' | 'caution';
+
+export interface ContraindicationRule {
+  drugs: DrugSubject[];
+  /** Condition ids; the rule applies when the patient has any of them. */
+  conditions: string[];
+  level: ContraindicationLevel;
+  rationale: string;
+  recommendation: string;
+  source: string;
+}
+
+export interface FlaggedContraindication {
+  condition: CodedCondition;
+  level: ContraindicationLevel;
+  rationale: string;
+  recommendation: string;
+  source: string;
+}
+
+export interface ContraindicationCheck {
+  drug: string;
+  conditions: CodedCondition[];
+  unrecognised: string[];
+  /** Contraindications first. */
+  flagged: FlaggedContraindication[];
+  /** Version of the contraindication table, so saved results record what they were checked against. */
+  tableVersion: string;
+  codeTableVersion: string;
+}
@@ -0,0 +1,57 @@
+// RFC 4180 CSV: comma-separated, double-quoted fields may contain commas,
+// newlines and escaped ("") quotes.
+
+/** Parses CSV text into rows of fields; blank lines are dropped. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+// Spreadsheets evaluate a cell starting with one of these as a formula; a
+// leading tab or carriage return can hide the formula character behind it
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeField = (raw: string) => {
+  const value = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(fields => fields.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,62 @@
+const DB_NAME = 'drug-response-predictor';
+const DB_VERSION = 3;
+
+export const PREDICTIONS_STORE = 'predictions';
+export const QUEUE_STORE = 'queuedPredictions';
+export const DRUG_CACHE_STORE = 'drugInfoCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // v1: saved predictions
+        if (!db.objectStoreNames.contains(PREDICTIONS_STORE)) {
+          const store = db.createObjectStore(PREDICTIONS_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        // v2: predictions waiting for the backend to come back
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          const store = db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+          store.createIndex('queuedAt', 'queuedAt');
+        }
+        // v3: cached drug-information and autocomplete lookups
+        if (!db.objectStoreNames.contains(DRUG_CACHE_STORE)) {
+          db.createObjectStore(DRUG_CACHE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Runs a single request in its own transaction and resolves with its result
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+  });
+}
+
+export const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
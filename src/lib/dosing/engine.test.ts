@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDose, findDosingRule } from '@/lib/dosing/engine';
+import type { DosingPatient } from '@/lib/dosing/types';
+
+const adult: DosingPatient = { age: 50, weightKg: 70, heightCm: 170, gender: 'male', hepaticImpairment: 'none' };
+
+describe('findDosingRule', () => {
+  it('resolves brand names through the knowledge base', () => {
+    expect(findDosingRule('Tylenol')?.drug).toBe('paracetamol');
+    expect(findDosingRule('Glucophage')?.drug).toBe('metformin');
+  });
+
+  it('does not dose a separate monograph as another drug', () => {
+    expect(findDosingRule('corvadil')).toBeUndefined();
+  });
+});
+
+describe('calculateDose', () => {
+  it('doses a brand name like its generic', () => {
+    expect(calculateDose('Tylenol', adult).display).toBe(calculateDose('paracetamol', adult).display);
+  });
+
+  it('recognises a current medication entered by brand as already taken', () => {
+    const renal = { ...adult, age: 70, serumCreatinine: 1.8 };
+    expect(calculateDose('metformin', renal).avoid).toBe(true);
+    const continued = calculateDose('metformin', { ...renal, currentMedications: ['Glucophage'] });
+    expect(continued.avoid).toBe(false);
+    expect(continued.maxDaily).toBe(1000);
+  });
+});
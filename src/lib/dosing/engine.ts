@@ -0,0 +1,204 @@
+import { dosingRules } from '@/data/dosingRules';
+import { resolveDrug } from '@/lib/drugs/knowledgeBase';
+import type {
+  DoseAdjustment,
+  DoseRecommendation,
+  DoseSpec,
+  DoseStep,
+  DoseUnit,
+  DosingPatient,
+  DosingRule,
+} from '@/lib/dosing/types';
+
+/**
+ * Cockcroft-Gault for adults; bedside Schwartz (which estimates GFR per
+ * 1.73 m²) for patients under 18.
+ */
+export function estimateCreatinineClearance(patient: DosingPatient): number | null {
+  const scr = patient.serumCreatinine;
+  if (!scr || scr <= 0) return null;
+  if (patient.age < 18) {
+    return patient.heightCm > 0 ? (0.413 * patient.heightCm) / scr : null;
+  }
+  const crcl = ((140 - patient.age) * patient.weightKg) / (72 * scr);
+  return patient.gender === 'female' ? crcl * 0.85 : crcl;
+}
+
+// Brand names and synonyms resolve to the generic name the rules are keyed by
+export function findDosingRule(drugName: string): DosingRule | undefined {
+  const key = resolveDrug(drugName).name;
+  return dosingRules.find(rule => rule.drug === key || rule.aliases?.includes(key));
+}
+
+// Rounds to a practical increment for the given magnitude
+const roundDose = (value: number) => {
+  if (value >= 100) return Math.round(value / 25) * 25;
+  if (value >= 20) return Math.round(value / 5) * 5;
+  if (value >= 2) return Math.round(value * 2) / 2;
+  return Math.round(value * 100) / 100;
+};
+
+const format = (value: number, unit: DoseUnit) => `${Number(value.toFixed(2))} ${unit}`;
+
+const avoidResult = (
+  drug: string,
+  rule: DosingRule,
+  crcl: number | null,
+  steps: DoseStep[],
+  reason: string,
+): DoseRecommendation => ({
+  drug,
+  ruleFound: true,
+  avoid: true,
+  dose: null,
+  unit: rule.unit,
+  frequency: null,
+  dailyDose: null,
+  maxDaily: null,
+  creatinineClearance: crcl,
+  steps,
+  display: `Not recommended — ${reason}`,
+});
+
+/**
+ * Derives a dose for `drugName` from the bundled rule table. Each rule that
+ * shaped the result is recorded in `steps`, in the order it was applied.
+ */
+export function calculateDose(drugName: string, patient: DosingPatient): DoseRecommendation {
+  const drug = drugName.trim();
+  const crcl = estimateCreatinineClearance(patient);
+  const rule = findDosingRule(drug);
+
+  if (!rule) {
+    return {
+      drug,
+      ruleFound: false,
+      avoid: false,
+      dose: null,
+      unit: null,
+      frequency: null,
+      dailyDose: null,
+      maxDaily: null,
+      creatinineClearance: crcl,
+      steps: [{ rule: 'No dosing rule', detail: `No dosing rule is defined for ${drug}. Refer to the product label.` }],
+      display: 'Refer to product label',
+    };
+  }
+
+  const steps: DoseStep[] = [];
+  const alreadyTaking = patient.currentMedications?.some(name => findDosingRule(name) === rule) ?? false;
+  // Set when the drug may be continued but not started, so no starting dose is given
+  let continuationOnly = false;
+  const isChild = patient.age < 18;
+  let spec: DoseSpec = rule.adult;
+
+  if (isChild && rule.pediatric) {
+    const pediatric = rule.pediatric;
+    if (pediatric.minAgeYears !== undefined && patient.age < pediatric.minAgeYears) {
+      steps.push({ rule: 'Pediatric age limit', detail: `Not recommended under ${pediatric.minAgeYears} years.` });
+      return avoidResult(drug, rule, crcl, steps, `patient is under ${pediatric.minAgeYears} years`);
+    }
+    const perKgCap = pediatric.maxDailyPerKg ? pediatric.maxDailyPerKg * patient.weightKg : Infinity;
+    spec = { ...pediatric, maxDaily: Math.min(pediatric.maxDaily, perKgCap) };
+  } else if (isChild) {
+    steps.push({ rule: 'No pediatric rule', detail: 'Adult dosing shown; confirm against a pediatric reference.' });
+  }
+
+  let dose = spec.perKg !== undefined ? spec.perKg * patient.weightKg : spec.amount ?? 0;
+  let frequency = spec.frequency;
+  let maxDaily = spec.maxDaily;
+
+  steps.push({
+    rule: spec.perKg !== undefined ? (isChild && rule.pediatric ? 'Pediatric weight-based dose' : 'Weight-based dose') : 'Standard adult dose',
+    detail: spec.perKg !== undefined
+      ? `${spec.perKg} ${rule.unit}/kg × ${patient.weightKg} kg = ${format(dose, rule.unit)} ${frequency.label}`
+      : `${format(dose, rule.unit)} ${frequency.label}`,
+  });
+
+  if (spec.maxSingle !== undefined && dose > spec.maxSingle) {
+    dose = spec.maxSingle;
+    steps.push({ rule: 'Maximum single dose', detail: `Capped at ${format(dose, rule.unit)} per dose.` });
+  }
+
+  const applyAdjustment = (name: string, adjustment: DoseAdjustment) => {
+    if (adjustment.factor !== undefined) dose *= adjustment.factor;
+    if (adjustment.amount !== undefined) dose = Math.min(dose, adjustment.amount);
+    if (adjustment.frequency) frequency = adjustment.frequency;
+    if (adjustment.maxDaily !== undefined) maxDaily = Math.min(maxDaily, adjustment.maxDaily);
+    steps.push({ rule: name, detail: adjustment.note });
+  };
+
+  if (crcl === null) {
+    if (rule.renal?.length) {
+      steps.push({ rule: 'Renal function', detail: 'Not assessed: serum creatinine not provided.' });
+    }
+  } else {
+    // Most severe matching tier wins
+    const tier = [...(rule.renal ?? [])]
+      .sort((a, b) => a.belowCrCl - b.belowCrCl)
+      .find(candidate => crcl < candidate.belowCrCl);
+    if (tier?.avoid) {
+      steps.push({ rule: 'Renal adjustment', detail: `CrCl ${Math.round(crcl)} mL/min: ${tier.note}` });
+      return avoidResult(drug, rule, crcl, steps, `CrCl ${Math.round(crcl)} mL/min`);
+    }
+    if (tier?.avoidInitiation && !alreadyTaking) {
+      steps.push({ rule: 'Renal adjustment', detail: `CrCl ${Math.round(crcl)} mL/min: ${tier.note}` });
+      return avoidResult(drug, rule, crcl, steps, `do not initiate at CrCl ${Math.round(crcl)} mL/min`);
+    }
+    if (tier?.avoidInitiation) continuationOnly = true;
+    if (tier) applyAdjustment('Renal adjustment', { ...tier, note: `CrCl ${Math.round(crcl)} mL/min: ${tier.note}` });
+  }
+
+  if (patient.hepaticImpairment !== 'none') {
+    const adjustment = rule.hepatic?.[patient.hepaticImpairment];
+    const label = `${patient.hepaticImpairment} hepatic impairment`;
+    if (adjustment?.avoid) {
+      steps.push({ rule: 'Hepatic adjustment', detail: `${label}: ${adjustment.note}` });
+      return avoidResult(drug, rule, crcl, steps, label);
+    }
+    if (adjustment) applyAdjustment('Hepatic adjustment', { ...adjustment, note: `${label}: ${adjustment.note}` });
+  }
+
+  if (continuationOnly) {
+    steps.push({ rule: 'Continuation only', detail: `Already taking ${drug}: continue the current dose within ${format(maxDaily, rule.unit)}/day.` });
+    return {
+      drug,
+      ruleFound: true,
+      avoid: false,
+      dose: null,
+      unit: rule.unit,
+      frequency: null,
+      dailyDose: null,
+      maxDaily,
+      creatinineClearance: crcl,
+      steps,
+      display: `Continue current dose — max ${format(maxDaily, rule.unit)}/day`,
+    };
+  }
+
+  dose = roundDose(dose);
+  if (dose * frequency.timesPerDay > maxDaily) {
+    dose = roundDose(maxDaily / frequency.timesPerDay);
+    // Rounding can still land just above the cap
+    if (dose * frequency.timesPerDay > maxDaily) dose = maxDaily / frequency.timesPerDay;
+    steps.push({
+      rule: 'Maximum daily dose cap',
+      detail: `Reduced to ${format(dose, rule.unit)} ${frequency.label} to stay within ${format(maxDaily, rule.unit)}/day.`,
+    });
+  }
+
+  const dailyDose = dose * frequency.timesPerDay;
+  return {
+    drug,
+    ruleFound: true,
+    avoid: false,
+    dose,
+    unit: rule.unit,
+    frequency,
+    dailyDose,
+    maxDaily,
+    creatinineClearance: crcl,
+    steps,
+    display: `${format(dose, rule.unit)} ${frequency.label}`,
+  };
+}
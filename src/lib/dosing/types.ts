@@ -0,0 +1,90 @@
+export type DoseUnit = 'mg' | 'mcg' | 'units';
+export type HepaticImpairment = 'none' | 'mild' | 'moderate' | 'severe';
+
+export interface Frequency {
+  label: string;
+  timesPerDay: number;
+}
+
+export const FREQUENCIES = {
+  daily: { label: 'once daily', timesPerDay: 1 },
+  bid: { label: 'twice daily', timesPerDay: 2 },
+  tid: { label: 'three times daily', timesPerDay: 3 },
+  qid: { label: 'four times daily', timesPerDay: 4 },
+  q4h: { label: 'every 4 hours as needed', timesPerDay: 6 },
+} satisfies Record<string, Frequency>;
+
+export interface DoseSpec {
+  /** Fixed dose per administration. */
+  amount?: number;
+  /** Weight-based dose per administration, in `unit` per kg. */
+  perKg?: number;
+  frequency: Frequency;
+  maxSingle?: number;
+  maxDaily: number;
+}
+
+export interface PediatricDoseSpec extends DoseSpec {
+  /** Below this age the drug is not recommended at all. */
+  minAgeYears?: number;
+  /** Weight-based daily cap, applied alongside `maxDaily`. */
+  maxDailyPerKg?: number;
+}
+
+export interface DoseAdjustment {
+  avoid?: boolean;
+  /** Not to be started; patients already taking it continue within `maxDaily`. */
+  avoidInitiation?: boolean;
+  factor?: number;
+  amount?: number;
+  frequency?: Frequency;
+  maxDaily?: number;
+  note: string;
+}
+
+export interface RenalTier extends DoseAdjustment {
+  /** Applies when creatinine clearance is below this value (mL/min). */
+  belowCrCl: number;
+}
+
+export interface DosingRule {
+  drug: string;
+  aliases?: string[];
+  unit: DoseUnit;
+  adult: DoseSpec;
+  pediatric?: PediatricDoseSpec;
+  renal?: RenalTier[];
+  hepatic?: Partial<Record<Exclude<HepaticImpairment, 'none'>, DoseAdjustment>>;
+  source: string;
+}
+
+export interface DosingPatient {
+  age: number;
+  weightKg: number;
+  heightCm: number;
+  gender: string;
+  /** Serum creatinine in mg/dL; renal rules are skipped when absent. */
+  serumCreatinine?: number;
+  hepaticImpairment: HepaticImpairment;
+  /** Drugs the patient already takes, to tell continuation from initiation. */
+  currentMedications?: string[];
+}
+
+export interface DoseStep {
+  rule: string;
+  detail: string;
+}
+
+export interface DoseRecommendation {
+  drug: string;
+  ruleFound: boolean;
+  avoid: boolean;
+  dose: number | null;
+  unit: DoseUnit | null;
+  frequency: Frequency | null;
+  dailyDose: number | null;
+  maxDaily: number | null;
+  creatinineClearance: number | null;
+  steps: DoseStep[];
+  display: string;
+}
@@ -0,0 +1,211 @@
+import { DRUG_CACHE_STORE, withStore } from '@/lib/db';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export interface CachePolicy {
+  label: string;
+  /**
+   * Where entries live: route handlers cache upstream responses in server
+   * memory, the browser persists the routes' answers in IndexedDB.
+   */
+  scope: 'server' | 'browser';
+  /** Served without a network request while younger than this. */
+  ttlMs: number;
+  /** After `ttlMs`, served immediately while a refresh runs in the background. */
+  staleMs: number;
+}
+
+// Reference data (identifiers, chemistry) changes rarely; labels and
+// backend-derived info are refreshed more often.
+export const CACHE_POLICIES = {
+  backend: { label: 'Backend drug info', scope: 'server', ttlMs: HOUR, staleMs: DAY },
+  rxnorm: { label: 'RxNorm concepts', scope: 'server', ttlMs: 7 * DAY, staleMs: 30 * DAY },
+  fda: { label: 'openFDA labels', scope: 'server', ttlMs: DAY, staleMs: 7 * DAY },
+  pubchem: { label: 'PubChem properties', scope: 'server', ttlMs: 30 * DAY, staleMs: 90 * DAY },
+  'rxnorm-displaynames': { label: 'RxNorm display names', scope: 'server', ttlMs: 7 * DAY, staleMs: 30 * DAY },
+  'autocomplete-rxnorm': { label: 'RxNorm suggestions', scope: 'server', ttlMs: DAY, staleMs: 7 * DAY },
+  'autocomplete-pubchem': { label: 'PubChem suggestions', scope: 'server', ttlMs: 7 * DAY, staleMs: 30 * DAY },
+  'drug-document': { label: 'Drug documents', scope: 'browser', ttlMs: HOUR, staleMs: DAY },
+  'drug-suggestions': { label: 'Medicine suggestions', scope: 'browser', ttlMs: DAY, staleMs: 7 * DAY },
+} satisfies Record<string, CachePolicy>;
+
+export type CacheSource = keyof typeof CACHE_POLICIES;
+
+export type CacheStatus = 'fresh' | 'stale' | 'expired';
+
+interface CacheEntry<T = unknown> {
+  /** `${source}:${key}` */
+  id: string;
+  source: CacheSource;
+  key: string;
+  value: T;
+  /** Epoch milliseconds of the network response. */
+  fetchedAt: number;
+}
+
+export interface CacheEntrySummary {
+  id: string;
+  source: CacheSource;
+  key: string;
+  fetchedAt: number;
+  status: CacheStatus;
+  /** Approximate size of the cached JSON, in bytes. */
+  size: number;
+}
+
+// In insertion order, least recently used first; see remember()
+const memory = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<unknown>>();
+
+const normaliseKey = (key: string) => key.trim().toLowerCase();
+const entryId = (source: CacheSource, key: string) => `${source}:${normaliseKey(key)}`;
+
+export function statusOf(source: CacheSource, fetchedAt: number, now = Date.now()): CacheStatus {
+  const { ttlMs, staleMs } = CACHE_POLICIES[source];
+  const age = now - fetchedAt;
+  if (age < ttlMs) return 'fresh';
+  if (age < ttlMs + staleMs) return 'stale';
+  return 'expired';
+}
+
+// On the server every distinct drug name or search term adds an entry, so
+// memory is bounded by count as well as by expiry
+const MEMORY_LIMIT = 500;
+
+// Marks the entry most recently used, then drops expired entries and, past
+// the limit, the least recently used ones
+function remember(entry: CacheEntry, now = Date.now()): void {
+  memory.delete(entry.id);
+  memory.set(entry.id, entry);
+  for (const [id, cached] of memory) {
+    if (id !== entry.id && statusOf(cached.source, cached.fetchedAt, now) === 'expired') memory.delete(id);
+  }
+  for (const id of memory.keys()) {
+    if (memory.size <= MEMORY_LIMIT) break;
+    memory.delete(id);
+  }
+}
+
+// Persistence is best-effort: without IndexedDB (and on the server) the cache
+// lives in memory for the life of the process only
+async function readEntry<T>(id: string): Promise<CacheEntry<T> | undefined> {
+  const cached = memory.get(id);
+  if (cached) {
+    remember(cached);
+    return cached as CacheEntry<T>;
+  }
+  try {
+    const stored = await withStore<CacheEntry<T> | undefined>(DRUG_CACHE_STORE, 'readonly', store => store.get(id));
+    if (stored) remember(stored);
+    return stored;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeEntry(entry: CacheEntry): Promise<void> {
+  remember(entry);
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await withStore(DRUG_CACHE_STORE, 'readwrite', store => store.put(entry));
+  } catch (error) {
+    console.log('Drug cache persistence failed:', error);
+  }
+}
+
+// One network request per entry at a time, however many callers ask for it
+function load<T>(source: CacheSource, key: string, loader: () => Promise<T>): Promise<T> {
+  const id = entryId(source, key);
+  const pending = inflight.get(id);
+  if (pending) return pending as Promise<T>;
+
+  const request = loader()
+    .then(async value => {
+      await writeEntry({ id, source, key: normaliseKey(key), value, fetchedAt: Date.now() });
+      return value;
+    })
+    .finally(() => inflight.delete(id));
+  inflight.set(id, request);
+  return request;
+}
+
+/**
+ * Returns the cached value for `source`/`key`, calling `loader` only when
+ * there is no usable entry. Stale entries are returned at once and refreshed
+ * in the background; when the loader fails, an expired entry is still
+ * preferred over an error. Loaders should throw on network or HTTP failure
+ * so that failures are never cached.
+ */
+export async function cachedFetch<T>(source: CacheSource, key: string, loader: () => Promise<T>): Promise<T> {
+  const entry = await readEntry<T>(entryId(source, key));
+  const status = entry ? statusOf(source, entry.fetchedAt) : null;
+
+  if (entry && status === 'fresh') return entry.value;
+  if (entry && status === 'stale') {
+    load(source, key, loader).catch(error => console.log(`Background refresh of ${source} "${key}" failed:`, error));
+    return entry.value;
+  }
+
+  try {
+    return await load(source, key, loader);
+  } catch (error) {
+    if (entry) {
+      console.log(`Using expired ${source} cache for "${key}":`, error);
+      return entry.value;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lets one caller stop waiting without cancelling the shared request, so
+ * other callers and the cache still receive the result.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new DOMException('Aborted', 'AbortError'));
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Aborted', 'AbortError'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/** Every persisted entry, newest first. */
+export async function listCacheEntries(now = Date.now()): Promise<CacheEntrySummary[]> {
+  let entries: CacheEntry[];
+  try {
+    entries = await withStore<CacheEntry[]>(DRUG_CACHE_STORE, 'readonly', store => store.getAll());
+  } catch {
+    entries = [...memory.values()];
+  }
+  return entries
+    .filter(entry => entry.source in CACHE_POLICIES)
+    .map(entry => ({
+      id: entry.id,
+      source: entry.source,
+      key: entry.key,
+      fetchedAt: entry.fetchedAt,
+      status: statusOf(entry.source, entry.fetchedAt, now),
+      size: JSON.stringify(entry.value)?.length ?? 0,
+    }))
+    .sort((a, b) => b.fetchedAt - a.fetchedAt);
+}
+
+export async function deleteCacheEntry(id: string): Promise<void> {
+  memory.delete(id);
+  await withStore(DRUG_CACHE_STORE, 'readwrite', store => store.delete(id));
+}
+
+/** Clears one source, or everything when `source` is omitted. */
+export async function clearCache(source?: CacheSource): Promise<void> {
+  if (!source) {
+    memory.clear();
+    await withStore(DRUG_CACHE_STORE, 'readwrite', store => store.clear());
+    return;
+  }
+  const entries = await listCacheEntries();
+  await Promise.all(entries.filter(entry => entry.source === source).map(entry => deleteCacheEntry(entry.id)));
+}
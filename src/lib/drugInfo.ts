@@ -0,0 +1,37 @@
+import { getDrugDocument, getDrugInfo } from '@/lib/api/client';
+import { getMockSettings } from '@/lib/api/mock';
+import type { DrugDocument } from '@/lib/api/schemas';
+import { cachedFetch } from '@/lib/drugCache';
+
+// Real-time drug information from /api/drugs/[name], which combines the
+// backend with RxNorm, openFDA and PubChem on the server. The browser keeps
+// the combined document in the shared drug cache.
+
+export async function fetchRealTimeDrugInfo(drugName: string): Promise<DrugDocument | null> {
+  try {
+    // Fixture mode answers from the mock backend alone, bypassing the server and the cache
+    if (getMockSettings().enabled) {
+      const { data } = await getDrugInfo(drugName);
+      return {
+        ...data,
+        drug_name: drugName,
+        provenance: [{
+          source: 'backend',
+          label: 'Mock backend fixture',
+          url: `/drug-info/${encodeURIComponent(drugName)}`,
+          status: 'found',
+          retrieved_at: new Date().toISOString(),
+        }],
+      };
+    }
+
+    const document = await cachedFetch('drug-document', drugName, async () => (await getDrugDocument(drugName)).data);
+    for (const entry of document.provenance) {
+      console.log(`📚 ${entry.label}: ${entry.status} (retrieved ${entry.retrieved_at})`, entry.error ?? '');
+    }
+    return document;
+  } catch (error) {
+    console.log('Drug information not available:', error);
+    return null;
+  }
+}
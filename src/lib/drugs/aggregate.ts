@@ -0,0 +1,198 @@
+import { pubChemProvider } from '@/lib/autocomplete/pubchem';
+import { rxNormProvider } from '@/lib/autocomplete/rxnorm';
+import { searchProvider } from '@/lib/autocomplete/search';
+import { API_BASE_URL, ApiError, getDrugInfo } from '@/lib/api/client';
+import type {
+  DrugDataSource,
+  DrugDocument,
+  DrugInfo,
+  DrugProvenance,
+  DrugSuggestionsResponse,
+} from '@/lib/api/schemas';
+import { cachedFetch } from '@/lib/drugCache';
+import { parseFdaLabel } from '@/lib/fdaLabel';
+
+// Server-side aggregation behind the /api/drugs route handlers. Each upstream
+// answer is cached in server memory together with the time it was retrieved,
+// so a cached document still reports where and when every part came from.
+
+const UPSTREAM_TIMEOUT_MS = 10_000;
+
+const SOURCE_LABELS: Record<DrugDataSource, string> = {
+  backend: 'Prediction backend (DrugBank)',
+  rxnorm: 'RxNorm (NLM RxNav)',
+  fda: 'openFDA drug label',
+  pubchem: 'PubChem',
+};
+
+interface Retrieved<T> {
+  value: T | null;
+  retrievedAt: string;
+}
+
+interface SourceLookup<T> {
+  value?: T;
+  provenance: DrugProvenance;
+}
+
+const getJson = async (url: string) => {
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: { 'Accept': 'application/json' },
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+  });
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`${new URL(url).hostname} responded with ${response.status}`);
+  }
+  return response.ok ? response.json() : null;
+};
+
+// Loaders throw on network/HTTP failure and return null only for a definite
+// "not found", which is cached like any other answer.
+async function lookup<T>(
+  source: DrugDataSource,
+  drugName: string,
+  url: string,
+  load: () => Promise<T | null>
+): Promise<SourceLookup<T>> {
+  const base = { source, label: SOURCE_LABELS[source], url };
+  try {
+    const { value, retrievedAt } = await cachedFetch<Retrieved<T>>(source, drugName, async () => ({
+      value: await load(),
+      retrievedAt: new Date().toISOString(),
+    }));
+    return {
+      value: value ?? undefined,
+      provenance: { ...base, status: value ? 'found' : 'not-found', retrieved_at: retrievedAt },
+    };
+  } catch (error) {
+    console.log(`${SOURCE_LABELS[source]} lookup failed for "${drugName}":`, error);
+    return {
+      provenance: {
+        ...base,
+        status: 'unavailable',
+        retrieved_at: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
+
+function lookupBackend(drugName: string) {
+  const url = `${API_BASE_URL}/drug-info/${encodeURIComponent(drugName)}`;
+  return lookup<DrugInfo>('backend', drugName, url, async () => {
+    try {
+      return (await getDrugInfo(drugName)).data;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  });
+}
+
+function lookupRxNorm(drugName: string) {
+  const url = `https://rxnav.nlm.nih.gov/REST/drugs.json?name=${encodeURIComponent(drugName)}`;
+  return lookup('rxnorm', drugName, url, async () => {
+    const data = await getJson(url);
+    const concepts = [];
+    for (const group of data?.drugGroup?.conceptGroup ?? []) {
+      if (group.conceptProperties) {
+        concepts.push(...group.conceptProperties);
+      }
+    }
+    return concepts.length > 0 ? { found: true, concepts, total_concepts: concepts.length } : null;
+  });
+}
+
+function lookupFDA(drugName: string) {
+  const url = `https://api.fda.gov/drug/label.json?search=generic_name:"${encodeURIComponent(drugName)}"&limit=1`;
+  return lookup('fda', drugName, url, async () => {
+    const result = (await getJson(url))?.results?.[0];
+    if (!result) return null;
+    return {
+      found: true,
+      generic_name: result.openfda?.generic_name ?? result.generic_name,
+      brand_name: result.openfda?.brand_name ?? result.brand_name,
+      indications: result.indications_and_usage,
+      warnings: result.warnings,
+      dosage: result.dosage_and_administration,
+      contraindications: result.contraindications,
+      sections: parseFdaLabel(result),
+    };
+  });
+}
+
+function lookupPubChem(drugName: string) {
+  const url = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/name/${encodeURIComponent(drugName)}/property/MolecularFormula,MolecularWeight,CanonicalSMILES,IsomericSMILES/JSON`;
+  return lookup('pubchem', drugName, url, async () => {
+    const props = (await getJson(url))?.PropertyTable?.Properties?.[0];
+    if (!props) return null;
+    return {
+      found: true,
+      molecular_formula: props.MolecularFormula,
+      molecular_weight: props.MolecularWeight === undefined ? undefined : String(props.MolecularWeight),
+      canonical_smiles: props.CanonicalSMILES,
+      isomeric_smiles: props.IsomericSMILES,
+    };
+  });
+}
+
+/**
+ * Queries the backend and the public drug APIs in parallel and merges them
+ * into one document. Sections fetched directly take precedence over the same
+ * section relayed by the backend; `provenance` has one entry per source,
+ * including those that found nothing or could not be reached.
+ */
+export async function buildDrugDocument(drugName: string): Promise<DrugDocument> {
+  const [backend, rxnorm, fda, pubchem] = await Promise.all([
+    lookupBackend(drugName),
+    lookupRxNorm(drugName),
+    lookupFDA(drugName),
+    lookupPubChem(drugName),
+  ]);
+
+  const publicSources = [
+    rxnorm.value && 'RxNorm',
+    fda.value && 'FDA',
+    pubchem.value && 'PubChem',
+  ].filter((name): name is string => Boolean(name));
+
+  return {
+    drug_name: drugName,
+    sources: Array.from(new Set([...(backend.value?.sources ?? []), ...publicSources])),
+    real_time_data: publicSources.length > 0 || backend.value?.real_time_data,
+    drugbank: backend.value?.drugbank,
+    rxnorm: rxnorm.value ?? backend.value?.rxnorm,
+    fda: fda.value ?? backend.value?.fda,
+    pubchem: pubchem.value ?? backend.value?.pubchem,
+    provenance: [backend.provenance, rxnorm.provenance, fda.provenance, pubchem.provenance],
+  };
+}
+
+const REMOTE_PROVIDERS = [rxNormProvider, pubChemProvider];
+
+/**
+ * Raw RxNorm and PubChem hits for the browser to rank alongside its offline
+ * list. Throws only when every provider fails.
+ */
+export async function searchRemoteSuggestions(term: string, signal: AbortSignal): Promise<DrugSuggestionsResponse> {
+  const settled = await Promise.allSettled(REMOTE_PROVIDERS.map(provider => searchProvider(provider, term, signal)));
+  const response: DrugSuggestionsResponse = { query: term, hits: [], provenance: [] };
+
+  settled.forEach((result, index) => {
+    const { source, label } = REMOTE_PROVIDERS[index];
+    if (source !== 'rxnorm' && source !== 'pubchem') return;
+    if (result.status === 'fulfilled') {
+      response.hits.push(...result.value.map(hit => ({ ...hit, source })));
+      response.provenance.push({ source, label, status: 'ok' });
+    } else {
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      response.provenance.push({ source, label, status: 'unavailable', error });
+    }
+  });
+
+  if (response.provenance.every(entry => entry.status === 'unavailable')) {
+    throw new Error(response.provenance.map(entry => `${entry.label}: ${entry.error}`).join('; '));
+  }
+  return response;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { checkContraindications } from '@/lib/conditions/contraindications';
+import { knowledgeBaseSchema, lookupDrug, resolveDrug } from '@/lib/drugs/knowledgeBase';
+import { SchemaValidationError } from '@/lib/validation';
+
+describe('lookupDrug', () => {
+  it('classes unknown drugs by stem', () => {
+    expect(lookupDrug('ramipril')).toMatchObject({ matchedBy: 'stem', drugClass: { id: 'ace-inhibitor' } });
+    expect(lookupDrug('pravastatin')?.drugClass?.id).toBe('statin');
+    expect(lookupDrug('hydrocortisone')?.drugClass?.id).toBe('corticosteroid');
+  });
+
+  it('does not class drugs that merely end in a stem', () => {
+    for (const name of ['nystatin', 'Dapsone', 'aripiprazole', 'cilastatin']) {
+      expect(lookupDrug(name)).toBeUndefined();
+      expect(resolveDrug(name).classId).toBeUndefined();
+    }
+  });
+});
+
+describe('stem false positives in the safety checks', () => {
+  it('raises no statin caution for nystatin in liver disease', () => {
+    expect(checkContraindications('nystatin', 'liver disease').flagged).toEqual([]);
+    expect(checkContraindications('pravastatin', 'liver disease').flagged).toHaveLength(1);
+  });
+
+  it('raises no corticosteroid cautions for dapsone', () => {
+    expect(checkContraindications('dapsone', 'type 2 diabetes, peptic ulcer').flagged).toEqual([]);
+  });
+});
+
+describe('knowledgeBaseSchema', () => {
+  it('rejects a stem exception that does not end in a class stem', () => {
+    const classes = [{ id: 'statin', name: 'Statin', stems: ['statin'], stemExceptions: ['nystatn'], effects: 'x', precautions: 'x', sources: [] }];
+    expect(() => knowledgeBaseSchema.parse({ version: '1', updated: '1', classes, drugs: [] }))
+      .toThrow(SchemaValidationError);
+  });
+});
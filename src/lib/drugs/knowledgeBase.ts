@@ -0,0 +1,164 @@
+import rawKnowledgeBase from '@/data/drugKnowledgeBase.json';
+import { array, Infer, joinPath, object, optional, SchemaValidationError, string, transform } from '@/lib/validation';
+
+// The bundled drug knowledge base: monographs, therapeutic classes and the
+// drug→class mapping, kept as data in src/data/drugKnowledgeBase.json so it
+// can be reviewed and extended without touching component code. The file is
+// validated when this module loads; a malformed edit fails the build instead
+// of silently producing empty explanations.
+
+const drugClassSchema = object({
+  id: string({ nonEmpty: true }),
+  name: string({ nonEmpty: true }),
+  /** Generic-name suffixes shared by the class (e.g. "pril"), for drugs without a monograph. */
+  stems: array(string({ nonEmpty: true })),
+  /** Unrelated drugs that happen to end in one of the stems (e.g. "nystatin"). */
+  stemExceptions: optional(array(string({ nonEmpty: true }))),
+  effects: string({ nonEmpty: true }),
+  precautions: string({ nonEmpty: true }),
+  sources: array(string({ nonEmpty: true })),
+});
+
+const drugMonographSchema = object({
+  /** Lowercase generic name. */
+  name: string({ nonEmpty: true }),
+  class: string({ nonEmpty: true }),
+  /** Other generic names and brand names, matched case-insensitively. */
+  synonyms: array(string({ nonEmpty: true })),
+  /** Short phrase completing "commonly prescribed for …". */
+  indications: string({ nonEmpty: true }),
+  uses: string({ nonEmpty: true }),
+  effects: string({ nonEmpty: true }),
+  precautions: string({ nonEmpty: true }),
+  sources: array(string({ nonEmpty: true })),
+});
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+/**
+ * The whole file. Beyond field types, every drug must reference a known
+ * class, no name or synonym may resolve to two different drugs and every stem
+ * exception must end in one of its class's stems.
+ */
+export const knowledgeBaseSchema = transform(
+  object({
+    version: string({ nonEmpty: true }),
+    updated: string({ nonEmpty: true }),
+    classes: array(drugClassSchema),
+    drugs: array(drugMonographSchema),
+  }),
+  (value, path) => {
+    const classIds = new Set<string>();
+    value.classes.forEach((drugClass, index) => {
+      if (classIds.has(drugClass.id)) {
+        throw new SchemaValidationError(joinPath(joinPath(joinPath(path, 'classes'), index), 'id'), 'unique class id', drugClass.id);
+      }
+      classIds.add(drugClass.id);
+      drugClass.stemExceptions?.forEach((name, exceptionIndex) => {
+        if (name !== normalise(name) || !drugClass.stems.some(stem => name.endsWith(stem))) {
+          throw new SchemaValidationError(
+            joinPath(joinPath(joinPath(joinPath(path, 'classes'), index), 'stemExceptions'), exceptionIndex),
+            `lowercase name ending in ${drugClass.stems.join(', ')}`,
+            name
+          );
+        }
+      });
+    });
+
+    const names = new Set<string>();
+    value.drugs.forEach((drug, index) => {
+      const drugPath = joinPath(joinPath(path, 'drugs'), index);
+      if (drug.name !== normalise(drug.name)) {
+        throw new SchemaValidationError(joinPath(drugPath, 'name'), 'lowercase generic name', drug.name);
+      }
+      if (!classIds.has(drug.class)) {
+        throw new SchemaValidationError(joinPath(drugPath, 'class'), `one of ${[...classIds].join(', ')}`, drug.class);
+      }
+      [drug.name, ...drug.synonyms].forEach(name => {
+        if (names.has(normalise(name))) {
+          throw new SchemaValidationError(joinPath(drugPath, 'synonyms'), 'name not used by another drug', name);
+        }
+        names.add(normalise(name));
+      });
+    });
+    return value;
+  }
+);
+
+export type DrugClass = Infer<typeof drugClassSchema>;
+export type DrugMonograph = Infer<typeof drugMonographSchema>;
+export type KnowledgeBase = Infer<typeof knowledgeBaseSchema>;
+
+/** A resolved lookup: the monograph when there is one, and the drug's class. */
+export interface KnowledgeBaseEntry {
+  drug?: DrugMonograph;
+  drugClass?: DrugClass;
+  /** How the name was resolved. */
+  matchedBy: 'name' | 'synonym' | 'stem';
+}
+
+export const knowledgeBase: KnowledgeBase = knowledgeBaseSchema.parse(rawKnowledgeBase);
+export const KNOWLEDGE_BASE_VERSION = knowledgeBase.version;
+
+const CLASSES_BY_ID = new Map(knowledgeBase.classes.map(drugClass => [drugClass.id, drugClass]));
+const DRUGS_BY_NAME = new Map(knowledgeBase.drugs.map(drug => [drug.name, drug]));
+const DRUGS_BY_SYNONYM = new Map(
+  knowledgeBase.drugs.flatMap(drug => drug.synonyms.map(synonym => [normalise(synonym), drug] as const))
+);
+
+export const getDrugClass = (id: string): DrugClass | undefined => CLASSES_BY_ID.get(id);
+
+/**
+ * Resolves a generic name, brand name or synonym. Drugs without a monograph
+ * still get their class when the name ends in a class stem ("ramipril" →
+ * ACE Inhibitor) and is not one of the class's stem exceptions ("nystatin" is
+ * no statin); otherwise returns undefined.
+ */
+export function lookupDrug(drugName: string): KnowledgeBaseEntry | undefined {
+  const key = normalise(drugName);
+  if (!key) return undefined;
+
+  const byName = DRUGS_BY_NAME.get(key);
+  if (byName) return { drug: byName, drugClass: CLASSES_BY_ID.get(byName.class), matchedBy: 'name' };
+
+  const bySynonym = DRUGS_BY_SYNONYM.get(key);
+  if (bySynonym) return { drug: bySynonym, drugClass: CLASSES_BY_ID.get(bySynonym.class), matchedBy: 'synonym' };
+
+  const byStem = knowledgeBase.classes.find(drugClass =>
+    drugClass.stems.some(stem => key.endsWith(stem)) && !drugClass.stemExceptions?.includes(key)
+  );
+  return byStem ? { drugClass: byStem, matchedBy: 'stem' } : undefined;
+}
+
+export interface ResolvedDrug {
+  /** Generic name when the knowledge base knows the drug, else the name as entered, lowercased. */
+  name: string;
+  classId?: string;
+}
+
+/** Maps brand names and synonyms to the generic name and class. */
+export function resolveDrug(drugName: string): ResolvedDrug {
+  const entry = lookupDrug(drugName);
+  return { name: entry?.drug?.name ?? normalise(drugName), classId: entry?.drugClass?.id };
+}
+
+/**
+ * How rule tables (interactions, contraindications) name drugs: a lowercase
+ * generic name, or a whole class written as "class:<id>" (e.g. "class:nsaid").
+ */
+export type DrugSubject = string;
+
+const CLASS_PREFIX = 'class:';
+
+export const matchesSubject = (subject: DrugSubject, drug: ResolvedDrug) =>
+  subject.startsWith(CLASS_PREFIX) ? subject.slice(CLASS_PREFIX.length) === drug.classId : subject === drug.name;
+
+/** Monographs whose name or a synonym contains `term`, name prefixes first. */
+export function searchKnowledgeBase(term: string): DrugMonograph[] {
+  const needle = normalise(term);
+  if (!needle) return knowledgeBase.drugs;
+  const names = (drug: DrugMonograph) => [drug.name, ...drug.synonyms].map(normalise);
+  return knowledgeBase.drugs
+    .filter(drug => names(drug).some(name => name.includes(needle)))
+    .sort((a, b) => Number(!a.name.startsWith(needle)) - Number(!b.name.startsWith(needle)));
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { buildExplanationDocument } from '@/lib/explanation';
+
+const SCRIPT = '<script>alert(1)</script>';
+const IMAGE = '<img src=x onerror="alert(1)">';
+
+describe('buildExplanationDocument', () => {
+  it('keeps a hostile drug name as plain text', () => {
+    const document = buildExplanationDocument('Take with food.', SCRIPT);
+    expect(document.drugName).toBe(SCRIPT);
+    expect(document.sections).toEqual([{ kind: 'details', text: 'Take with food.' }]);
+  });
+
+  it('keeps markup inside labelled passages verbatim instead of interpreting it', () => {
+    const document = buildExplanationDocument(
+      `**How it works:** Blocks an enzyme ${IMAGE} in the liver. **Chemical Formula:** C9H8O4${SCRIPT}`,
+      'aspirin'
+    );
+    expect(document.sections.find(section => section.kind === 'mechanism')?.text).toBe(`Blocks an enzyme ${IMAGE} in the liver.`);
+    expect(document.sections.find(section => section.kind === 'formula')?.text).toBe(`C9H8O4${SCRIPT}`);
+  });
+
+  it('splits unlabelled label text into detail paragraphs without dropping markup', () => {
+    const document = buildExplanationDocument(`WARNINGS ${IMAGE}\n\n<a href="javascript:alert(1)">More</a>`, 'ibuprofen');
+    expect(document.sections).toEqual([
+      { kind: 'details', text: `WARNINGS ${IMAGE}` },
+      { kind: 'details', text: '<a href="javascript:alert(1)">More</a>' },
+    ]);
+  });
+});
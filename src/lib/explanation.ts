@@ -0,0 +1,105 @@
+import { getDrugInfo } from '@/lib/prediction';
+
+// Drug explanations as a typed document instead of an HTML string. Section
+// text is always plain text taken verbatim from the backend or the drug
+// databases; it is rendered by React, which escapes it, so markup in a drug
+// name or label never reaches the page as HTML.
+
+export type ExplanationSectionKind =
+  | 'summary'
+  | 'mechanism'
+  | 'indications'
+  | 'formula'
+  | 'safety'
+  | 'recommendation'
+  | 'details';
+
+export interface ExplanationSection {
+  kind: ExplanationSectionKind;
+  /** Plain text; never HTML. */
+  text: string;
+}
+
+export interface ExplanationDocument {
+  drugName: string;
+  sections: ExplanationSection[];
+}
+
+export const SECTION_HEADINGS: Record<ExplanationSectionKind, string> = {
+  summary: 'Summary',
+  mechanism: 'How it works',
+  indications: 'Used to treat',
+  formula: 'Chemical Formula',
+  safety: 'Safety',
+  recommendation: 'Recommendation',
+  details: 'Details',
+};
+
+// Labelled passages in backend explanations look like "**How it works:** ...";
+// each runs until the next bold label or the end of the text.
+const LABELLED_SECTIONS: { kind: ExplanationSectionKind; label: string; minLength: number; maxLength?: number }[] = [
+  { kind: 'mechanism', label: 'How it works|Mechanism of Action', minLength: 11 },
+  { kind: 'indications', label: 'How it helps|Indications', minLength: 11, maxLength: 200 },
+  { kind: 'formula', label: 'Chemical Formula', minLength: 1 },
+  { kind: 'safety', label: 'Safety Assessment', minLength: 11 },
+  { kind: 'recommendation', label: 'Recommendation', minLength: 11 },
+];
+
+const CONDITION_KEYWORDS: [string[], string][] = [
+  [['gastroesophageal reflux', 'gerd'], 'Gastroesophageal reflux disease (GERD)'],
+  [['hypertension'], 'Hypertension (high blood pressure)'],
+  [['diabetes'], 'Type 2 Diabetes'],
+  [['depression'], 'Depression and anxiety disorders'],
+  [['pain'], 'Pain management'],
+  [['inflammation'], 'Inflammatory conditions'],
+  [['cholesterol'], 'High cholesterol and cardiovascular risk'],
+  [['infection'], 'Bacterial infections'],
+];
+
+// Strips leftover markdown emphasis and collapses whitespace
+const clean = (text: string) => text.replace(/\*+/g, '').replace(/\s+/g, ' ').trim();
+
+function extractLabelled(text: string, label: string): string | undefined {
+  const match = text.match(new RegExp(`(?:${label})[^:]*?:\\s*(?:\\*\\*)?([\\s\\S]*?)(?=\\*\\*|$)`));
+  return match ? clean(match[1]) : undefined;
+}
+
+const truncate = (text: string, maxLength?: number) =>
+  maxLength && text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+
+function conditionOf(indications: string | undefined): string | undefined {
+  const lower = indications?.toLowerCase() ?? '';
+  return CONDITION_KEYWORDS.find(([keywords]) => keywords.some(keyword => lower.includes(keyword)))?.[1];
+}
+
+/**
+ * Splits an explanation into typed sections. Text with labelled passages
+ * gets a one-line summary plus one section per label; anything else is kept
+ * as paragraphs of plain detail text.
+ */
+export function buildExplanationDocument(text: string | undefined, drugName?: string): ExplanationDocument {
+  const name = drugName?.trim() || 'This Medicine';
+  if (!text?.trim()) {
+    return { drugName: name, sections: [{ kind: 'details', text: 'No explanation available.' }] };
+  }
+
+  const labelled = LABELLED_SECTIONS.flatMap(({ kind, label, minLength, maxLength }) => {
+    const value = extractLabelled(text, label);
+    return value && value.length >= minLength ? [{ kind, text: truncate(value, maxLength) }] : [];
+  });
+
+  if (labelled.length === 0) {
+    const paragraphs = text.split(/\n\s*\n/).map(clean).filter(Boolean);
+    return { drugName: name, sections: paragraphs.map(paragraph => ({ kind: 'details', text: paragraph })) };
+  }
+
+  const drugInfo = getDrugInfo(name);
+  const condition = conditionOf(extractLabelled(text, 'How it helps|Indications|INDICATIONS'));
+  return {
+    drugName: name,
+    sections: [
+      { kind: 'summary', text: `${drugInfo.category} commonly prescribed for ${condition ?? drugInfo.uses}.` },
+      ...labelled,
+    ],
+  };
+}
@@ -0,0 +1,134 @@
+import type { FdaLabelSection, FdaLabelSectionId } from '@/lib/api/schemas';
+
+// Structured prescribing-information sections from an openFDA drug label.
+// openFDA returns each label section as plain text with its heading inlined
+// ("6 ADVERSE REACTIONS The following ..."), subsections numbered inline
+// ("8.1 Pregnancy ...") and bullet points as "•".
+
+type LabelBlock = FdaLabelSection['blocks'][number];
+
+interface SectionSource {
+  id: FdaLabelSectionId;
+  title: string;
+  /** Label fields that make up the section. */
+  fields: string[];
+  /** Older (non-PLR) labels split the section across these fields instead. */
+  legacyFields?: string[];
+}
+
+const LABEL_SECTIONS: SectionSource[] = [
+  { id: 'boxed_warning', title: 'Boxed Warning', fields: ['boxed_warning'] },
+  { id: 'indications', title: 'Indications and Usage', fields: ['indications_and_usage'] },
+  { id: 'dosage', title: 'Dosage and Administration', fields: ['dosage_and_administration'] },
+  { id: 'contraindications', title: 'Contraindications', fields: ['contraindications'] },
+  {
+    id: 'warnings',
+    title: 'Warnings and Precautions',
+    fields: ['warnings_and_cautions'],
+    legacyFields: ['warnings', 'precautions'],
+  },
+  { id: 'adverse_reactions', title: 'Adverse Reactions', fields: ['adverse_reactions'] },
+  { id: 'drug_interactions', title: 'Drug Interactions', fields: ['drug_interactions'] },
+  {
+    id: 'specific_populations',
+    title: 'Use in Specific Populations',
+    fields: ['use_in_specific_populations'],
+    legacyFields: ['pregnancy', 'lactation', 'nursing_mothers', 'pediatric_use', 'geriatric_use'],
+  },
+];
+
+// The inlined upper-case heading of each field, with its optional section number
+const FIELD_HEADINGS: Record<string, string> = {
+  boxed_warning: 'BOXED WARNING',
+  indications_and_usage: 'INDICATIONS (?:AND|&) USAGE',
+  dosage_and_administration: 'DOSAGE (?:AND|&) ADMINISTRATION',
+  contraindications: 'CONTRAINDICATIONS',
+  warnings_and_cautions: 'WARNINGS (?:AND|&) PRECAUTIONS',
+  warnings: 'WARNINGS',
+  precautions: 'PRECAUTIONS',
+  adverse_reactions: 'ADVERSE REACTIONS',
+  drug_interactions: 'DRUG INTERACTIONS',
+  use_in_specific_populations: 'USE IN SPECIFIC POPULATIONS',
+  pregnancy: 'PREGNANCY',
+  lactation: 'LACTATION',
+  nursing_mothers: 'NURSING MOTHERS',
+  pediatric_use: 'PEDIATRIC USE',
+  geriatric_use: 'GERIATRIC USE',
+};
+
+const BOXED_WARNING_HEADLINE = /^(WARNING:\s*[^a-z•]*?)(?=\s+[A-Z][a-z]|\s*•|$)/;
+const FULL_BOXED_WARNING_NOTE = /See full prescribing information for complete boxed warning\.?/gi;
+const SUBSECTION_START = /\s(?=\d{1,2}\.\d{1,2}\s+[A-Z])/;
+const SUBSECTION_NUMBER = /^(\d{1,2}\.\d{1,2})\s+/;
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const textsOf = (label: Record<string, unknown>, field: string): string[] => {
+  const value = label[field];
+  return Array.isArray(value) ? value.filter((text): text is string => typeof text === 'string') : [];
+};
+
+function stripHeading(field: string, text: string): string {
+  const heading = FIELD_HEADINGS[field];
+  return heading ? text.replace(new RegExp(`^\\s*(?:\\d{1,2}\\s+)?${heading}\\b:?\\s*`), '') : text;
+}
+
+// One block per numbered subsection; bullets are split out of each block
+function toBlocks(text: string): LabelBlock[] {
+  return text.split(SUBSECTION_START).flatMap(part => {
+    const number = part.trim().match(SUBSECTION_NUMBER)?.[1];
+    const body = number ? part.trim().slice(number.length) : part;
+    const [lead, ...bullets] = body.split('•').map(squash);
+    if (!lead && bullets.length === 0) return [];
+    return [{ number, text: lead, bullets: bullets.filter(Boolean) }];
+  });
+}
+
+function parseSection(source: SectionSource, label: Record<string, unknown>): FdaLabelSection | null {
+  const current = source.fields.filter(field => textsOf(label, field).length > 0);
+  const fields = current.length > 0 ? current : (source.legacyFields ?? []);
+
+  let headline: string | undefined;
+  const blocks = fields.flatMap(field =>
+    textsOf(label, field).flatMap(raw => {
+      let text = stripHeading(field, squash(raw));
+      if (source.id === 'boxed_warning') {
+        text = text.replace(FULL_BOXED_WARNING_NOTE, ' ');
+        const match = text.match(BOXED_WARNING_HEADLINE);
+        if (match && !headline) {
+          headline = squash(match[1]);
+          text = text.slice(match[0].length);
+        }
+      }
+      return toBlocks(text);
+    })
+  );
+
+  if (blocks.length === 0 && !headline) return null;
+  return { id: source.id, title: source.title, headline, blocks };
+}
+
+/** Parses a raw openFDA label result into the sections it has, in label order. */
+export function parseFdaLabel(label: Record<string, unknown>): FdaLabelSection[] {
+  return LABEL_SECTIONS
+    .map(source => parseSection(source, label))
+    .filter((section): section is FdaLabelSection => section !== null);
+}
+
+export const findSection = (sections: FdaLabelSection[] | undefined, id: FdaLabelSectionId) =>
+  sections?.find(section => section.id === id);
+
+/**
+ * The opening sentences of a section, cut at a sentence boundary, for use
+ * in running text. Returns undefined when the section is missing.
+ */
+export function summariseSection(section: FdaLabelSection | undefined, maxLength = 280): string | undefined {
+  const first = section?.blocks.find(block => block.text || block.bullets.length > 0);
+  // "indicated for:" and the like only make sense with the bullets that follow
+  const text = first ? [first.text, ...first.bullets].filter(Boolean).join(' ') : section?.headline;
+  if (!text) return undefined;
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const sentenceEnd = cut.lastIndexOf('. ');
+  return sentenceEnd > maxLength / 3 ? cut.slice(0, sentenceEnd + 1) : `${cut.trimEnd()}…`;
+}
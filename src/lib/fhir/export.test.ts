@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { buildPredictionBundle } from '@/lib/fhir/export';
+import { validateBundle } from '@/lib/fhir/validate';
+import type { FhirResource } from '@/lib/fhir/types';
+import type { PatientFormData, PredictionResult } from '@/types/prediction';
+
+const formData: PatientFormData = {
+  medicineName: 'warfarin',
+  gender: 'female',
+  age: 68,
+  weight: '70',
+  height: '165',
+  serumCreatinine: '',
+  hepaticImpairment: 'none',
+  chronicConditions: 'peptic ulcer',
+  allergies: [{ substance: 'warfarin', reaction: 'rash', severity: 'moderate' }],
+  currentMedications: [{ drug: 'aspirin', dose: '', frequency: '' }],
+  additionalMedicines: [],
+};
+
+const result: PredictionResult = {
+  prediction: 'Effective',
+  confidence: 0.8,
+  drugName: 'warfarin',
+  allergyScreening: {
+    drug: 'warfarin',
+    screened: 1,
+    matches: [{ allergy: formData.allergies[0], kind: 'direct', confidence: 'high', reason: 'Recorded allergy to warfarin' }],
+    tableVersion: 'test',
+  },
+  contraindicationCheck: {
+    drug: 'warfarin',
+    conditions: [],
+    unrecognised: [],
+    flagged: [{
+      condition: { id: 'peptic-ulcer', name: 'Peptic ulcer disease', icd10: 'K27.9', snomed: '13200003', text: 'peptic ulcer' },
+      level: 'caution',
+      rationale: 'Bleeding risk',
+      recommendation: 'Monitor for GI bleeding',
+      source: 'test',
+    }],
+    tableVersion: 'test',
+    codeTableVersion: 'test',
+  },
+  interactionCheck: {
+    drug: 'warfarin',
+    medications: ['aspirin'],
+    interactions: [{
+      medication: 'aspirin',
+      severity: 'major',
+      mechanism: 'Additive bleeding risk',
+      management: 'Avoid unless indicated',
+      source: 'test',
+      providers: ['bundled'],
+    }],
+    providers: [],
+    tableVersion: 'test',
+  },
+  drugInfo: {
+    rxnormData: {},
+    fdaData: {},
+    interactions: { interactions: [{ drug: 'Aspirin', severity: 'moderate', description: 'Bleeding' }] },
+    dosageInfo: {},
+  },
+};
+
+const detectedIssues = (resources: FhirResource[]) => resources.filter(resource => resource.resourceType === 'DetectedIssue');
+
+describe('buildPredictionBundle', () => {
+  const bundle = buildPredictionBundle(formData, result, null, new Date('2025-11-10T00:00:00Z'));
+  const issues = detectedIssues(bundle.entry.map(entry => entry.resource));
+
+  it('emits one DetectedIssue per local finding', () => {
+    expect(issues.map(issue => issue.detail)).toEqual([
+      'Recorded allergy to warfarin',
+      'Use with caution with Peptic ulcer disease: Monitor for GI bleeding',
+      'warfarin + aspirin: Avoid unless indicated',
+    ]);
+    expect(validateBundle(bundle)).toEqual([]);
+  });
+
+  it('grades interaction hits by the interaction check severity', () => {
+    const interaction = issues.find(issue => String(issue.detail).includes('aspirin'));
+    expect(interaction?.severity).toBe('high');
+  });
+});
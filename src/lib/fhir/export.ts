@@ -0,0 +1,202 @@
+import type { SystemStatus } from '@/lib/api/schemas';
+import { LEVEL_LABELS } from '@/lib/conditions/contraindications';
+import type { ContraindicationLevel } from '@/lib/conditions/types';
+import { FREQUENCIES, type DoseRecommendation, type DoseUnit } from '@/lib/dosing/types';
+import { findSection } from '@/lib/fdaLabel';
+import type { FhirBundleEntry, FhirOutputBundle, FhirResource } from '@/lib/fhir/types';
+import { extractInteractions, type InteractionSeverity } from '@/lib/regimen';
+import { predictedClassOf, UNKNOWN_PREDICTED_CLASS } from '@/lib/report';
+import type { PatientFormData, PredictionResult } from '@/types/prediction';
+
+/** Local code system for the model's outcome classes. */
+export const OUTCOME_SYSTEM = 'urn:drug-response-predictor:outcome';
+const ACT_CODE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+const RXNORM_SYSTEM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+const UCUM_UNITS: Record<DoseUnit, string> = { mg: 'mg', mcg: 'ug', units: '[U]' };
+
+const DETECTED_ISSUE_SEVERITY: Record<InteractionSeverity, 'high' | 'moderate' | 'low'> = {
+  major: 'high',
+  moderate: 'moderate',
+  minor: 'low',
+  unknown: 'moderate',
+};
+
+type CodeableConcept = { coding?: { system: string; code: string; display: string }[]; text: string };
+
+const CONTRAINDICATION_SEVERITY: Record<ContraindicationLevel, 'high' | 'moderate'> = {
+  contraindicated: 'high',
+  caution: 'moderate',
+};
+
+const INTERACTION_CODE: CodeableConcept = {
+  coding: [{ system: ACT_CODE_SYSTEM, code: 'DRG', display: 'Drug Interaction Alert' }],
+  text: 'Drug interaction',
+};
+
+const createUuid = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+      const random = (Math.random() * 16) | 0;
+      return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+    });
+
+const FHIR_GENDERS: Record<string, string> = { male: 'male', female: 'female', other: 'other' };
+
+// rxnorm_data is free-form; pick up an RxCUI if the backend supplied one
+const findRxcui = (rxnormData: Record<string, unknown> | undefined): string | null => {
+  const value = rxnormData?.rxcui ?? rxnormData?.rxnorm_id;
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+};
+
+const timingOf = (dosing: DoseRecommendation) => {
+  if (!dosing.frequency) return undefined;
+  return dosing.frequency.label === FREQUENCIES.q4h.label
+    ? { repeat: { frequency: 1, period: 4, periodUnit: 'h' } }
+    : { repeat: { frequency: dosing.frequency.timesPerDay, period: 1, periodUnit: 'd' } };
+};
+
+const dosageInstructionOf = (result: PredictionResult) => {
+  const dosing = result.dosing;
+  if (!dosing || dosing.avoid || dosing.dose === null || !dosing.unit) {
+    return [{ text: result.dosage ?? 'No dose computed' }];
+  }
+  const unit = UCUM_UNITS[dosing.unit];
+  return [{
+    text: dosing.display,
+    timing: timingOf(dosing),
+    asNeededBoolean: dosing.frequency?.label === FREQUENCIES.q4h.label ? true : undefined,
+    doseAndRate: [{ doseQuantity: { value: dosing.dose, unit: dosing.unit, system: UCUM_SYSTEM, code: unit } }],
+    maxDosePerPeriod: dosing.maxDaily !== null ? {
+      numerator: { value: dosing.maxDaily, unit: dosing.unit, system: UCUM_SYSTEM, code: unit },
+      denominator: { value: 1, unit: 'day', system: UCUM_SYSTEM, code: 'd' },
+    } : undefined,
+  }];
+};
+
+// Drops undefined members so the JSON carries no empty elements
+const compact = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Builds a FHIR R4 transaction Bundle for one prediction: the Patient, a
+ * RiskAssessment for the predicted class, one DetectedIssue per safety
+ * warning, local finding (boxed warning, allergy, contraindication,
+ * interaction) or reported interaction, and a draft MedicationRequest
+ * carrying the computed dose.
+ */
+export function buildPredictionBundle(
+  formData: PatientFormData,
+  result: PredictionResult,
+  systemStatus: SystemStatus | null,
+  now: Date = new Date()
+): FhirOutputBundle {
+  const timestamp = now.toISOString();
+  const drug = result.drugName ?? formData.medicineName;
+  const entries: FhirBundleEntry[] = [];
+  const add = (resource: FhirResource) => {
+    const fullUrl = `urn:uuid:${createUuid()}`;
+    entries.push({ fullUrl, resource: compact(resource), request: { method: 'POST', url: resource.resourceType } });
+    return fullUrl;
+  };
+
+  const patientRef = add({
+    resourceType: 'Patient',
+    gender: FHIR_GENDERS[formData.gender] ?? 'unknown',
+  });
+
+  const rxcui = findRxcui(result.drugInfo?.rxnormData);
+  const medicationRequestRef = add({
+    resourceType: 'MedicationRequest',
+    status: 'draft',
+    intent: 'proposal',
+    medicationCodeableConcept: {
+      coding: rxcui ? [{ system: RXNORM_SYSTEM, code: rxcui, display: drug }] : undefined,
+      text: drug,
+    },
+    subject: { reference: patientRef },
+    authoredOn: timestamp,
+    dosageInstruction: dosageInstructionOf(result),
+    note: result.dosing?.steps.length
+      ? result.dosing.steps.map(step => ({ text: `${step.rule}: ${step.detail}` }))
+      : undefined,
+  });
+
+  const predictedClass = predictedClassOf(result.prediction);
+  add({
+    resourceType: 'RiskAssessment',
+    status: 'final',
+    subject: { reference: patientRef },
+    occurrenceDateTime: timestamp,
+    code: { text: `Predicted response to ${drug}` },
+    method: { text: `Drug response prediction model${systemStatus ? ` v${systemStatus.version}` : ''}` },
+    basis: [{ reference: medicationRequestRef }],
+    prediction: [{
+      outcome: {
+        // An unrecognised outcome is carried as text only, never as a coded class
+        coding: predictedClass === UNKNOWN_PREDICTED_CLASS
+          ? undefined
+          : [{ system: OUTCOME_SYSTEM, code: predictedClass.replace(' ', '-').toLowerCase(), display: result.prediction }],
+        text: result.prediction,
+      },
+      probabilityDecimal: result.confidence,
+    }],
+    note: result.explanation ? [{ text: result.explanation }] : undefined,
+  });
+
+  const warnings = result.medicineSuitability?.safety_information.warnings ?? [];
+  warnings.forEach(warning => add({
+    resourceType: 'DetectedIssue',
+    status: 'final',
+    code: { text: 'Medication safety warning' },
+    patient: { reference: patientRef },
+    identifiedDateTime: timestamp,
+    implicated: [{ reference: medicationRequestRef }],
+    detail: warning,
+  }));
+
+  const issue = (code: CodeableConcept, severity: 'high' | 'moderate' | 'low', detail: string) => add({
+    resourceType: 'DetectedIssue',
+    status: 'final',
+    code,
+    severity,
+    patient: { reference: patientRef },
+    identifiedDateTime: timestamp,
+    implicated: [{ reference: medicationRequestRef }],
+    detail,
+  });
+
+  const boxedWarning = findSection(result.fdaLabel, 'boxed_warning');
+  if (boxedWarning) {
+    issue({ text: 'Boxed warning' }, 'high', boxedWarning.headline ?? boxedWarning.title);
+  }
+  (result.allergyScreening?.matches ?? []).forEach(match => issue(
+    { coding: [{ system: ACT_CODE_SYSTEM, code: 'ALGY', display: 'Allergy Alert' }], text: 'Drug allergy' },
+    match.kind === 'direct' ? 'high' : 'moderate',
+    match.reason
+  ));
+  (result.contraindicationCheck?.flagged ?? []).forEach(flag => issue(
+    { text: 'Drug-condition contraindication' },
+    CONTRAINDICATION_SEVERITY[flag.level],
+    `${LEVEL_LABELS[flag.level]} with ${flag.condition.name}: ${flag.recommendation}`
+  ));
+  const checked = result.interactionCheck?.interactions ?? [];
+  checked.forEach(interaction => issue(
+    INTERACTION_CODE,
+    DETECTED_ISSUE_SEVERITY[interaction.severity],
+    `${drug} + ${interaction.medication}: ${interaction.management}`
+  ));
+
+  // Backend interactions already covered by the local check are not repeated
+  const checkedNames = new Set(checked.map(interaction => interaction.medication.toLowerCase()));
+  extractInteractions(result.drugInfo?.interactions)
+    .filter(interaction => !checkedNames.has(interaction.drug.toLowerCase()))
+    .forEach(interaction => issue(
+      INTERACTION_CODE,
+      DETECTED_ISSUE_SEVERITY[interaction.severity],
+      `${drug} + ${interaction.drug}${interaction.description ? `: ${interaction.description}` : ''}`
+    ));
+
+  return { resourceType: 'Bundle', type: 'transaction', timestamp, entry: entries };
+}
@@ -0,0 +1,332 @@
+import {
+  bundleSchema,
+  CodeableConcept,
+  conditionSchema,
+  FhirDosage,
+  FhirMedication,
+  medicationSchema,
+  medicationStatementSchema,
+  observationSchema,
+  patientSchema,
+  Quantity,
+} from '@/lib/fhir/schemas';
+import { Schema, SchemaValidationError } from '@/lib/validation';
+import type { MedicationEntry, PatientFormData } from '@/types/prediction';
+
+export type FhirImportSeverity = 'error' | 'warning' | 'info';
+
+export interface FhirImportIssue {
+  severity: FhirImportSeverity;
+  /** `ResourceType/id`, or `ResourceType #n` when the resource has no id. */
+  resource: string;
+  message: string;
+}
+
+export type FhirFormPatch = Partial<Pick<
+  PatientFormData,
+  'age' | 'gender' | 'weight' | 'height' | 'serumCreatinine' | 'chronicConditions' | 'currentMedications'
+>>;
+
+export interface FhirImportResult {
+  patch: FhirFormPatch;
+  /** Human-readable labels of the form fields the patch fills. */
+  filled: string[];
+  issues: FhirImportIssue[];
+}
+
+const LOINC = 'http://loinc.org';
+
+type MeasurementKind = 'weight' | 'height' | 'serumCreatinine';
+
+// LOINC codes read from Observations, with their unit conversions into the form's units
+const OBSERVATION_CODES: Record<string, MeasurementKind> = {
+  '29463-7': 'weight', // Body weight
+  '3141-9': 'weight', // Body weight Measured
+  '8302-2': 'height', // Body height
+  '8306-3': 'height', // Body height --lying
+  '2160-0': 'serumCreatinine', // Creatinine [Mass/volume] in Serum or Plasma
+  '14682-9': 'serumCreatinine', // Creatinine [Moles/volume] in Serum or Plasma
+};
+
+const UNIT_FACTORS: Record<MeasurementKind, Record<string, number>> = {
+  weight: { kg: 1, g: 0.001, '[lb_av]': 0.45359237, lb: 0.45359237, lbs: 0.45359237 },
+  height: { cm: 1, m: 100, '[in_i]': 2.54, in: 2.54 },
+  serumCreatinine: { 'mg/dL': 1, 'umol/L': 1 / 88.4, 'µmol/L': 1 / 88.4, 'μmol/L': 1 / 88.4 },
+};
+
+const MEASUREMENT_LABELS: Record<MeasurementKind, string> = {
+  weight: 'Weight',
+  height: 'Height',
+  serumCreatinine: 'Serum creatinine',
+};
+
+const FIELD_LABELS: Record<keyof FhirFormPatch, string> = {
+  age: 'Age',
+  gender: 'Gender',
+  weight: 'Weight',
+  height: 'Height',
+  serumCreatinine: 'Serum creatinine',
+  chronicConditions: 'Chronic conditions',
+  currentMedications: 'Current medications',
+};
+
+const GENDERS: Record<string, string> = { male: 'male', female: 'female', other: 'other' };
+
+// Statuses whose data should not prefill the form
+const SKIPPED_OBSERVATION_STATUSES = ['cancelled', 'entered-in-error'];
+const SKIPPED_CONDITION_STATUSES = ['inactive', 'remission', 'resolved'];
+const SKIPPED_VERIFICATION_STATUSES = ['refuted', 'entered-in-error'];
+const SKIPPED_MEDICATION_STATUSES = ['completed', 'stopped', 'not-taken', 'entered-in-error'];
+
+const PERIOD_UNITS: Record<string, string> = {
+  s: 'second', min: 'minute', h: 'hour', d: 'day', wk: 'week', mo: 'month', a: 'year',
+};
+
+const conceptText = (concept: CodeableConcept | undefined) =>
+  concept?.text?.trim() || concept?.coding?.find(coding => coding.display?.trim())?.display?.trim() || concept?.coding?.[0]?.code || '';
+
+const conceptCodes = (concept: CodeableConcept | undefined) =>
+  concept?.coding?.map(coding => coding.code ?? '').filter(Boolean) ?? [];
+
+/** Whole years between an R4 `date` (YYYY, YYYY-MM or YYYY-MM-DD) and `today`. */
+export function ageFromBirthDate(birthDate: string, today: Date): number | null {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(birthDate.trim());
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2] ?? 1);
+  const day = Number(match[3] ?? 1);
+  let age = today.getFullYear() - year;
+  if (today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day)) age -= 1;
+  return age;
+}
+
+const toFormUnits = (kind: MeasurementKind, quantity: Quantity | undefined): number | null => {
+  if (quantity?.value === undefined) return null;
+  const unit = quantity.code ?? quantity.unit ?? '';
+  const factor = UNIT_FACTORS[kind][unit];
+  return factor === undefined ? null : quantity.value * factor;
+};
+
+const formatNumber = (value: number) => String(Number(value.toFixed(2)));
+
+const describeDose = (dosage: FhirDosage | undefined) => {
+  const quantity = dosage?.doseAndRate?.find(rate => rate.doseQuantity?.value !== undefined)?.doseQuantity;
+  return quantity ? `${quantity.value} ${quantity.unit ?? quantity.code ?? ''}`.trim() : '';
+};
+
+const describeFrequency = (dosage: FhirDosage | undefined) => {
+  const timing = dosage?.timing;
+  const codeText = conceptText(timing?.code);
+  if (codeText) return codeText;
+  const repeat = timing?.repeat;
+  if (repeat?.frequency && repeat.periodUnit) {
+    const unit = PERIOD_UNITS[repeat.periodUnit] ?? repeat.periodUnit;
+    const period = repeat.period && repeat.period !== 1 ? `${repeat.period} ${unit}s` : unit;
+    return `${repeat.frequency}× per ${period}`;
+  }
+  return dosage?.text?.trim() ?? '';
+};
+
+interface Measurement {
+  value: number;
+  date: string;
+  resource: string;
+}
+
+/**
+ * Maps a FHIR R4 Bundle onto the patient form. Throws SchemaValidationError
+ * when the input is not a Bundle at all; problems with individual resources
+ * are collected as issues and the resource is skipped.
+ */
+export function importFhirBundle(input: unknown, today: Date = new Date()): FhirImportResult {
+  const bundle = bundleSchema.parse(input);
+  if (bundle.resourceType !== 'Bundle') {
+    throw new SchemaValidationError('resourceType', '"Bundle"', bundle.resourceType);
+  }
+
+  const issues: FhirImportIssue[] = [];
+  const patch: FhirFormPatch = {};
+  const entries = (bundle.entry ?? []).flatMap(entry => (entry.resource ? [{ fullUrl: entry.fullUrl, resource: entry.resource }] : []));
+  const counters: Record<string, number> = {};
+  const labelled = entries.map(entry => {
+    const type = entry.resource.resourceType;
+    counters[type] = (counters[type] ?? 0) + 1;
+    return { ...entry, label: entry.resource.id ? `${type}/${entry.resource.id}` : `${type} #${counters[type]}` };
+  });
+
+  const issue = (severity: FhirImportSeverity, resource: string, message: string) =>
+    issues.push({ severity, resource, message });
+
+  // Parses a resource with its schema, recording a validation failure as an issue
+  const parseResource = <T>(schema: Schema<T>, resource: unknown, label: string): T | null => {
+    try {
+      return schema.parse(resource);
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      issue('error', label, `Skipped malformed resource. ${error.message}`);
+      return null;
+    }
+  };
+
+  // Medications referenced by MedicationStatement.medicationReference
+  const medications = new Map<string, FhirMedication>();
+  for (const entry of labelled) {
+    if (entry.resource.resourceType !== 'Medication') continue;
+    const medication = parseResource(medicationSchema, entry.resource, entry.label);
+    if (!medication) continue;
+    if (medication.id) medications.set(`Medication/${medication.id}`, medication);
+    if (entry.fullUrl) medications.set(entry.fullUrl, medication);
+  }
+
+  const measurements: Record<MeasurementKind, Measurement[]> = { weight: [], height: [], serumCreatinine: [] };
+  const conditions: string[] = [];
+  const currentMedications: MedicationEntry[] = [];
+  const unsupported: Record<string, number> = {};
+  let patientLabel: string | null = null;
+
+  for (const { resource, label } of labelled) {
+    switch (resource.resourceType) {
+      case 'Patient': {
+        const patient = parseResource(patientSchema, resource, label);
+        if (!patient) break;
+        if (patientLabel) {
+          const conflicting = (patient.gender !== undefined && GENDERS[patient.gender] !== patch.gender) ||
+            (patient.birthDate !== undefined && ageFromBirthDate(patient.birthDate, today) !== patch.age);
+          issue(conflicting ? 'warning' : 'info', label,
+            conflicting
+              ? `Conflicts with ${patientLabel}; demographics were taken from ${patientLabel}.`
+              : `Additional Patient resource ignored; demographics were taken from ${patientLabel}.`);
+          break;
+        }
+        patientLabel = label;
+        if (patient.gender) {
+          if (GENDERS[patient.gender]) patch.gender = GENDERS[patient.gender];
+          else issue('warning', label, `Gender "${patient.gender}" has no equivalent in the form and was not imported.`);
+        }
+        if (patient.birthDate) {
+          const age = ageFromBirthDate(patient.birthDate, today);
+          if (age === null) issue('warning', label, `Unrecognised birthDate "${patient.birthDate}".`);
+          else if (age < 1 || age > 120) issue('warning', label, `Computed age ${age} is outside the supported range of 1–120 years.`);
+          else patch.age = age;
+        }
+        break;
+      }
+
+      case 'Observation': {
+        const observation = parseResource(observationSchema, resource, label);
+        if (!observation) break;
+        const loincCodes = (observation.code.coding ?? []).filter(coding => coding.system === LOINC).map(coding => coding.code ?? '');
+        const kind = loincCodes.map(code => OBSERVATION_CODES[code]).find(Boolean);
+        if (!kind) {
+          issue('info', label, `Observation "${conceptText(observation.code) || 'uncoded'}" is not used by the form.`);
+          break;
+        }
+        if (observation.status && SKIPPED_OBSERVATION_STATUSES.includes(observation.status)) {
+          issue('info', label, `Skipped ${MEASUREMENT_LABELS[kind].toLowerCase()} with status "${observation.status}".`);
+          break;
+        }
+        const value = toFormUnits(kind, observation.valueQuantity);
+        if (value === null) {
+          const unit = observation.valueQuantity?.code ?? observation.valueQuantity?.unit;
+          issue('warning', label, observation.valueQuantity?.value === undefined
+            ? `${MEASUREMENT_LABELS[kind]} observation has no numeric value.`
+            : unit
+              ? `${MEASUREMENT_LABELS[kind]} unit "${unit}" is not supported.`
+              : `${MEASUREMENT_LABELS[kind]} observation has a value but no unit.`);
+          break;
+        }
+        measurements[kind].push({ value, date: observation.effectiveDateTime ?? observation.issued ?? '', resource: label });
+        break;
+      }
+
+      case 'Condition': {
+        const condition = parseResource(conditionSchema, resource, label);
+        if (!condition) break;
+        const name = conceptText(condition.code);
+        const clinical = conceptCodes(condition.clinicalStatus);
+        const verification = conceptCodes(condition.verificationStatus);
+        if (!name) {
+          issue('warning', label, 'Condition has no code or text and was skipped.');
+        } else if (clinical.some(code => SKIPPED_CONDITION_STATUSES.includes(code))) {
+          issue('info', label, `Skipped "${name}" (clinical status ${clinical.join(', ')}).`);
+        } else if (verification.some(code => SKIPPED_VERIFICATION_STATUSES.includes(code))) {
+          issue('info', label, `Skipped "${name}" (verification status ${verification.join(', ')}).`);
+        } else if (!conditions.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+          conditions.push(name);
+        }
+        break;
+      }
+
+      case 'MedicationStatement': {
+        const statement = parseResource(medicationStatementSchema, resource, label);
+        if (!statement) break;
+        let drug = conceptText(statement.medicationCodeableConcept);
+        const reference = statement.medicationReference?.reference;
+        if (!drug && reference) {
+          const referenced = reference.startsWith('#')
+            ? statement.contained?.find(item => item.resourceType === 'Medication' && `#${item.id}` === reference)
+            : medications.get(reference);
+          drug = conceptText(referenced?.code) || statement.medicationReference?.display?.trim() || '';
+          if (!drug) {
+            issue('warning', label, `Medication reference "${reference}" could not be resolved in the bundle.`);
+            break;
+          }
+        }
+        if (!drug) {
+          issue('warning', label, 'MedicationStatement names no medication and was skipped.');
+          break;
+        }
+        if (statement.status && SKIPPED_MEDICATION_STATUSES.includes(statement.status)) {
+          issue('info', label, `Skipped "${drug}" (status ${statement.status}).`);
+          break;
+        }
+        const dosage = statement.dosage?.[0];
+        currentMedications.push({ drug, dose: describeDose(dosage), frequency: describeFrequency(dosage) });
+        break;
+      }
+
+      case 'Medication':
+        // Handled above as a reference target
+        break;
+
+      default:
+        unsupported[resource.resourceType] = (unsupported[resource.resourceType] ?? 0) + 1;
+    }
+  }
+
+  // Latest measurement wins; disagreeing values are reported
+  (Object.keys(measurements) as MeasurementKind[]).forEach(kind => {
+    const values = [...measurements[kind]].sort((a, b) => b.date.localeCompare(a.date));
+    if (values.length === 0) return;
+    const [latest] = values;
+    patch[kind] = formatNumber(latest.value);
+    const distinct = new Set(values.map(measurement => formatNumber(measurement.value)));
+    if (distinct.size > 1) {
+      issue('warning', latest.resource,
+        `${values.length} ${MEASUREMENT_LABELS[kind].toLowerCase()} observations disagree (${[...distinct].join(', ')}); ` +
+        `used the most recent${latest.date ? ` from ${latest.date.slice(0, 10)}` : ''}.`);
+    }
+  });
+
+  if (conditions.length > 0) patch.chronicConditions = conditions.join(', ');
+  if (currentMedications.length > 0) patch.currentMedications = currentMedications;
+
+  Object.entries(unsupported).forEach(([type, count]) =>
+    issue('info', type, `${count} ${type} resource${count === 1 ? ' is' : 's are'} not supported and ${count === 1 ? 'was' : 'were'} ignored.`)
+  );
+  if (!patientLabel) issue('warning', 'Bundle', 'No Patient resource found; age and gender were not imported.');
+  const filled = (Object.keys(patch) as Array<keyof FhirFormPatch>).map(key => FIELD_LABELS[key]);
+
+  return { patch, filled, issues };
+}
+
+/** Parses pasted or uploaded text, reporting invalid JSON as a validation error. */
+export function importFhirBundleText(text: string, today?: Date): FhirImportResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new SchemaValidationError('', 'JSON document', text.trim() ? 'unparseable text' : '');
+  }
+  return importFhirBundle(json, today);
+}
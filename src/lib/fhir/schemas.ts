@@ -0,0 +1,115 @@
+import {
+  array,
+  Infer,
+  number,
+  object,
+  optional,
+  string,
+} from '@/lib/validation';
+
+// Only the FHIR R4 elements the app reads are validated; everything else in a
+// resource is passed through untouched by `object`.
+
+export const codingSchema = object({
+  system: optional(string()),
+  code: optional(string()),
+  display: optional(string()),
+});
+
+export const codeableConceptSchema = object({
+  coding: optional(array(codingSchema)),
+  text: optional(string()),
+});
+
+export const quantitySchema = object({
+  value: optional(number()),
+  unit: optional(string()),
+  system: optional(string()),
+  code: optional(string()),
+});
+
+export const referenceSchema = object({
+  reference: optional(string()),
+  display: optional(string()),
+});
+
+export const resourceSchema = object({
+  resourceType: string({ nonEmpty: true }),
+  id: optional(string()),
+});
+
+export const bundleSchema = object({
+  resourceType: string({ nonEmpty: true }),
+  type: optional(string()),
+  entry: optional(array(object({
+    fullUrl: optional(string()),
+    resource: optional(resourceSchema),
+  }))),
+});
+
+export const patientSchema = object({
+  resourceType: string(),
+  id: optional(string()),
+  gender: optional(string()),
+  birthDate: optional(string()),
+});
+
+export const observationSchema = object({
+  resourceType: string(),
+  id: optional(string()),
+  status: optional(string()),
+  code: codeableConceptSchema,
+  effectiveDateTime: optional(string()),
+  issued: optional(string()),
+  valueQuantity: optional(quantitySchema),
+});
+
+export const conditionSchema = object({
+  resourceType: string(),
+  id: optional(string()),
+  clinicalStatus: optional(codeableConceptSchema),
+  verificationStatus: optional(codeableConceptSchema),
+  code: optional(codeableConceptSchema),
+});
+
+export const medicationSchema = object({
+  resourceType: string(),
+  id: optional(string()),
+  code: optional(codeableConceptSchema),
+});
+
+export const dosageSchema = object({
+  text: optional(string()),
+  timing: optional(object({
+    code: optional(codeableConceptSchema),
+    repeat: optional(object({
+      frequency: optional(number({ min: 0 })),
+      period: optional(number({ min: 0 })),
+      periodUnit: optional(string()),
+    })),
+  })),
+  doseAndRate: optional(array(object({
+    doseQuantity: optional(quantitySchema),
+  }))),
+});
+
+export const medicationStatementSchema = object({
+  resourceType: string(),
+  id: optional(string()),
+  status: optional(string()),
+  medicationCodeableConcept: optional(codeableConceptSchema),
+  medicationReference: optional(referenceSchema),
+  contained: optional(array(medicationSchema)),
+  dosage: optional(array(dosageSchema)),
+});
+
+export type Coding = Infer<typeof codingSchema>;
+export type CodeableConcept = Infer<typeof codeableConceptSchema>;
+export type Quantity = Infer<typeof quantitySchema>;
+export type FhirBundle = Infer<typeof bundleSchema>;
+export type FhirPatient = Infer<typeof patientSchema>;
+export type FhirObservation = Infer<typeof observationSchema>;
+export type FhirCondition = Infer<typeof conditionSchema>;
+export type FhirMedication = Infer<typeof medicationSchema>;
+export type FhirDosage = Infer<typeof dosageSchema>;
+export type FhirMedicationStatement = Infer<typeof medicationStatementSchema>;
@@ -0,0 +1,28 @@
+// Output-side FHIR R4 shapes. Resources built for export are plain JSON
+// objects; `validateBundle` checks them against the base structure.
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [element: string]: unknown;
+}
+
+export interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirResource;
+  request?: { method: 'POST' | 'PUT'; url: string };
+}
+
+export interface FhirOutputBundle {
+  resourceType: 'Bundle';
+  id?: string;
+  type: 'transaction' | 'collection' | 'document' | 'message' | 'batch';
+  timestamp?: string;
+  entry: FhirBundleEntry[];
+}
+
+export interface FhirValidationIssue {
+  /** FHIRPath-like location, e.g. `Bundle.entry[2].resource.status`. */
+  path: string;
+  message: string;
+}
@@ -0,0 +1,156 @@
+import type { FhirOutputBundle, FhirResource, FhirValidationIssue } from '@/lib/fhir/types';
+
+// Structural rules from the FHIR R4 base resource definitions for the
+// resources this app exports: required elements (min = 1), required value
+// set bindings, primitive formats, invariants, and that every reference
+// resolves within the bundle.
+
+const PUBLICATION_STATUS = ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'] as const;
+
+// http://hl7.org/fhir/R4/datatypes.html#dateTime
+const DATE_TIME = /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1])(T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]+)?(Z|(\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00)))?)?)?$/;
+// http://hl7.org/fhir/R4/datatypes.html#instant
+const INSTANT = /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)-(0[1-9]|1[0-2])-(0[1-9]|[1-2][0-9]|3[0-1])T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]+)?(Z|(\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00))$/;
+
+interface ResourceRule {
+  /** Required elements; `name[x]` accepts any choice-type variant. */
+  required: string[];
+  codes?: Record<string, readonly string[]>;
+  dateTimes?: string[];
+  references?: string[];
+  invariants?: Array<(resource: FhirResource) => string | null>;
+}
+
+const RULES: Record<string, ResourceRule> = {
+  Patient: {
+    required: [],
+    codes: { gender: ['male', 'female', 'other', 'unknown'] },
+  },
+  MedicationRequest: {
+    required: ['status', 'intent', 'medication[x]', 'subject'],
+    codes: {
+      status: ['active', 'on-hold', 'cancelled', 'completed', 'entered-in-error', 'stopped', 'draft', 'unknown'],
+      intent: ['proposal', 'plan', 'order', 'original-order', 'reflex-order', 'filler-order', 'instance-order', 'option'],
+    },
+    dateTimes: ['authoredOn'],
+    references: ['subject'],
+  },
+  RiskAssessment: {
+    required: ['status', 'subject'],
+    codes: { status: PUBLICATION_STATUS },
+    dateTimes: ['occurrenceDateTime'],
+    references: ['subject', 'basis'],
+    invariants: [
+      // ras-2: must be <= 100
+      resource => (resource.prediction as Array<{ probabilityDecimal?: number }> | undefined)
+        ?.some(prediction => prediction.probabilityDecimal !== undefined && prediction.probabilityDecimal > 100)
+        ? 'ras-2: prediction.probabilityDecimal must be <= 100'
+        : null,
+    ],
+  },
+  DetectedIssue: {
+    required: ['status'],
+    codes: { status: PUBLICATION_STATUS, severity: ['high', 'moderate', 'low'] },
+    dateTimes: ['identifiedDateTime'],
+    references: ['patient', 'implicated'],
+  },
+};
+
+const BUNDLE_TYPES = ['document', 'message', 'transaction', 'transaction-response', 'batch', 'batch-response', 'history', 'searchset', 'collection'];
+const HTTP_VERBS = ['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+const hasElement = (resource: FhirResource, name: string) =>
+  name.endsWith('[x]')
+    ? Object.keys(resource).some(key => key.startsWith(name.slice(0, -3)) && resource[key] !== undefined)
+    : resource[name] !== undefined;
+
+// ele-1: every element must have a value or children; JSON nulls are not allowed
+function checkNoEmptyElements(value: unknown, path: string, issues: FhirValidationIssue[]) {
+  if (value === null) {
+    issues.push({ path, message: 'null is not a valid FHIR value' });
+  } else if (typeof value === 'string' && value.trim() === '') {
+    issues.push({ path, message: 'ele-1: empty string values are not allowed' });
+  } else if (Array.isArray(value)) {
+    if (value.length === 0) issues.push({ path, message: 'ele-1: empty arrays are not allowed' });
+    value.forEach((item, index) => checkNoEmptyElements(item, `${path}[${index}]`, issues));
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0) issues.push({ path, message: 'ele-1: empty objects are not allowed' });
+    entries.forEach(([key, item]) => checkNoEmptyElements(item, `${path}.${key}`, issues));
+  }
+}
+
+/** Returns every structural problem found; an empty list means the bundle is valid. */
+export function validateBundle(bundle: FhirOutputBundle): FhirValidationIssue[] {
+  const issues: FhirValidationIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  if (bundle.resourceType !== 'Bundle') report('Bundle.resourceType', 'must be "Bundle"');
+  if (!BUNDLE_TYPES.includes(bundle.type)) report('Bundle.type', `"${bundle.type}" is not a valid bundle type`);
+  if (bundle.timestamp !== undefined && !INSTANT.test(bundle.timestamp)) report('Bundle.timestamp', 'must be a FHIR instant');
+
+  const fullUrls = new Set(bundle.entry.map(entry => entry.fullUrl));
+  if (fullUrls.size !== bundle.entry.length) report('Bundle.entry', 'fullUrl values must be unique');
+
+  bundle.entry.forEach((entry, index) => {
+    const entryPath = `Bundle.entry[${index}]`;
+    const { resource } = entry;
+    const path = `${entryPath}.resource`;
+
+    if (!entry.fullUrl) report(`${entryPath}.fullUrl`, 'is required');
+    // bdl-3: entry.request mandatory for batch/transaction
+    if (bundle.type === 'transaction' || bundle.type === 'batch') {
+      if (!entry.request) report(`${entryPath}.request`, 'bdl-3: is required in a transaction');
+      else {
+        if (!HTTP_VERBS.includes(entry.request.method)) report(`${entryPath}.request.method`, `"${entry.request.method}" is not an HTTP verb`);
+        if (!entry.request.url) report(`${entryPath}.request.url`, 'is required');
+      }
+    }
+
+    checkNoEmptyElements(resource, path, issues);
+
+    const rule = RULES[resource.resourceType];
+    if (!rule) {
+      report(`${path}.resourceType`, `${resource.resourceType} is not a resource type this export knows how to validate`);
+      return;
+    }
+
+    rule.required.forEach(name => {
+      if (!hasElement(resource, name)) report(`${path}.${name}`, `is required on ${resource.resourceType}`);
+    });
+
+    Object.entries(rule.codes ?? {}).forEach(([name, allowed]) => {
+      const value = resource[name];
+      if (value !== undefined && (typeof value !== 'string' || !allowed.includes(value))) {
+        report(`${path}.${name}`, `"${String(value)}" is not in the required value set (${allowed.join(', ')})`);
+      }
+    });
+
+    (rule.dateTimes ?? []).forEach(name => {
+      const value = resource[name];
+      if (value !== undefined && (typeof value !== 'string' || !DATE_TIME.test(value))) {
+        report(`${path}.${name}`, 'must be a FHIR dateTime');
+      }
+    });
+
+    (rule.references ?? []).forEach(name => {
+      const value = resource[name];
+      if (value === undefined) return;
+      const references = (Array.isArray(value) ? value : [value]) as Array<{ reference?: unknown }>;
+      references.forEach((reference, refIndex) => {
+        const refPath = Array.isArray(value) ? `${path}.${name}[${refIndex}]` : `${path}.${name}`;
+        if (typeof reference?.reference !== 'string') report(`${refPath}.reference`, 'must be a string');
+        else if (reference.reference.startsWith('urn:uuid:') && !fullUrls.has(reference.reference)) {
+          report(`${refPath}.reference`, `"${reference.reference}" does not resolve to an entry in this bundle`);
+        }
+      });
+    });
+
+    (rule.invariants ?? []).forEach(invariant => {
+      const message = invariant(resource);
+      if (message) report(path, message);
+    });
+  });
+
+  return issues;
+}
@@ -0,0 +1,30 @@
+import { createId, PREDICTIONS_STORE, withStore } from '@/lib/db';
+import type { PatientFormData, PredictionResult } from '@/types/prediction';
+
+export interface PredictionRecord {
+  id: string;
+  /** ISO timestamp of when the prediction completed. */
+  createdAt: string;
+  formData: PatientFormData;
+  result: PredictionResult;
+}
+
+export async function savePrediction(formData: PatientFormData, result: PredictionResult): Promise<PredictionRecord> {
+  const record: PredictionRecord = { id: createId(), createdAt: new Date().toISOString(), formData, result };
+  await withStore(PREDICTIONS_STORE, 'readwrite', store => store.put(record));
+  return record;
+}
+
+/** All saved predictions, newest first. */
+export async function listPredictions(): Promise<PredictionRecord[]> {
+  const records = await withStore<PredictionRecord[]>(PREDICTIONS_STORE, 'readonly', store => store.index('createdAt').getAll());
+  return records.reverse();
+}
+
+export async function getPrediction(id: string): Promise<PredictionRecord | undefined> {
+  return withStore<PredictionRecord | undefined>(PREDICTIONS_STORE, 'readonly', store => store.get(id));
+}
+
+export async function deletePrediction(id: string): Promise<void> {
+  await withStore(PREDICTIONS_STORE, 'readwrite', store => store.delete(id));
+}
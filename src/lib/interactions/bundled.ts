@@ -0,0 +1,29 @@
+import { DRUG_INTERACTIONS } from '@/data/drugInteractions';
+import { matchesSubject, ResolvedDrug, resolveDrug } from '@/lib/drugs/knowledgeBase';
+import type { InteractionProvider, InteractionRule } from '@/lib/interactions/types';
+
+/** The rule covering the pair in either order, if any. */
+export function findRule(a: ResolvedDrug, b: ResolvedDrug, rules: InteractionRule[] = DRUG_INTERACTIONS): InteractionRule | undefined {
+  return rules.find(({ between: [first, second] }) =>
+    (matchesSubject(first, a) && matchesSubject(second, b)) || (matchesSubject(first, b) && matchesSubject(second, a))
+  );
+}
+
+// The interaction table shipped with the app; always available, works offline.
+export const bundledProvider: InteractionProvider = {
+  id: 'bundled',
+  label: 'Bundled interaction table',
+  async check(drugName, medications) {
+    const drug = resolveDrug(drugName);
+    return medications.flatMap(medication => {
+      const rule = findRule(drug, resolveDrug(medication));
+      return rule ? [{
+        medication,
+        severity: rule.severity,
+        mechanism: rule.mechanism,
+        management: rule.management,
+        source: rule.source,
+      }] : [];
+    });
+  },
+};
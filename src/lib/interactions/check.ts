@@ -0,0 +1,70 @@
+import { DRUG_INTERACTIONS_VERSION } from '@/data/drugInteractions';
+import { bundledProvider } from '@/lib/interactions/bundled';
+import { remoteInteractionProvider } from '@/lib/interactions/remote';
+import type {
+  DrugInteraction,
+  GradedSeverity,
+  InteractionCheck,
+  InteractionProvider,
+  InteractionProviderStatus,
+} from '@/lib/interactions/types';
+
+export const defaultInteractionProviders: InteractionProvider[] = [bundledProvider, remoteInteractionProvider];
+
+export const SEVERITY_RANK: Record<GradedSeverity, number> = { major: 3, moderate: 2, minor: 1 };
+
+const PROVIDER_TIMEOUT_MS = 5000;
+
+/**
+ * Checks `drugName` against each current medication with every provider.
+ * Findings for the same medication are merged: the worst severity wins and
+ * its mechanism, management and source come with it, so the advice always
+ * matches the severity shown. On equal severity the first provider's wording
+ * is kept, so the bundled table leads. A provider that fails is reported as
+ * unavailable rather than failing the check.
+ */
+export async function checkInteractions(
+  drugName: string,
+  medications: string[],
+  providers: InteractionProvider[] = defaultInteractionProviders
+): Promise<InteractionCheck> {
+  const names = [...new Set(medications.map(medication => medication.trim()).filter(Boolean))];
+  const settled = await Promise.allSettled(
+    providers.map(provider => provider.check(drugName, names, AbortSignal.timeout(PROVIDER_TIMEOUT_MS)))
+  );
+
+  const merged = new Map<string, DrugInteraction>();
+  const statuses: InteractionProviderStatus[] = settled.map((outcome, index) => {
+    const provider = providers[index];
+    if (outcome.status === 'rejected') {
+      const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      console.warn(`⚠️ Interaction provider ${provider.id} unavailable:`, error);
+      return { provider: provider.id, label: provider.label, status: 'unavailable', error };
+    }
+    for (const hit of outcome.value) {
+      const key = hit.medication.toLowerCase();
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...hit, providers: [provider.id] });
+        continue;
+      }
+      if (!existing.providers.includes(provider.id)) existing.providers.push(provider.id);
+      if (SEVERITY_RANK[hit.severity] > SEVERITY_RANK[existing.severity]) {
+        const { severity, mechanism, management, source } = hit;
+        Object.assign(existing, { severity, mechanism, management, source });
+      }
+    }
+    return { provider: provider.id, label: provider.label, status: 'ok' };
+  });
+
+  return {
+    drug: drugName,
+    medications: names,
+    interactions: [...merged.values()].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]),
+    providers: statuses,
+    tableVersion: DRUG_INTERACTIONS_VERSION,
+  };
+}
+
+export const majorInteractions = (check: InteractionCheck | undefined) =>
+  check?.interactions.filter(interaction => interaction.severity === 'major') ?? [];
@@ -0,0 +1,35 @@
+import { INTERACTION_SERVICE_PAIRS, InteractionServicePair } from '@/data/interactionServiceFixtures';
+import { wait } from '@/lib/api/mock';
+import { resolveDrug } from '@/lib/drugs/knowledgeBase';
+import type { GradedSeverity, InteractionProvider } from '@/lib/interactions/types';
+
+// Local stand-in for a remote interaction service. It answers from recorded
+// pairs with simulated latency, in the service's own format, so the merge and
+// provider-status handling are exercised before a live endpoint is wired in.
+
+const LATENCY_MS = 200;
+
+const SEVERITIES: Record<string, GradedSeverity> = { high: 'major', moderate: 'moderate', low: 'minor' };
+
+const isPair = (pair: InteractionServicePair, a: string, b: string) =>
+  (pair.drug_a === a && pair.drug_b === b) || (pair.drug_a === b && pair.drug_b === a);
+
+export const remoteInteractionProvider: InteractionProvider = {
+  id: 'remote',
+  label: 'Interaction service (local stand-in)',
+  async check(drugName, medications, signal) {
+    await wait(LATENCY_MS, signal);
+    const drug = resolveDrug(drugName).name;
+    return medications.flatMap(medication => {
+      const pair = INTERACTION_SERVICE_PAIRS.find(candidate => isPair(candidate, drug, resolveDrug(medication).name));
+      const severity = pair && SEVERITIES[pair.severity.toLowerCase()];
+      return pair && severity ? [{
+        medication,
+        severity,
+        mechanism: pair.description,
+        management: pair.recommendation,
+        source: pair.reference,
+      }] : [];
+    });
+  },
+};
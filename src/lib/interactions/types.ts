@@ -0,0 +1,55 @@
+import type { DrugSubject } from '@/lib/drugs/knowledgeBase';
+import type { InteractionSeverity } from '@/lib/regimen';
+
+/** Severity as graded by the interaction sources; every rule has a grade. */
+export type GradedSeverity = Exclude<InteractionSeverity, 'unknown'>;
+
+export interface InteractionRule {
+  between: [DrugSubject, DrugSubject];
+  severity: GradedSeverity;
+  /** Why the drugs interact. */
+  mechanism: string;
+  /** What the prescriber should do about it. */
+  management: string;
+  source: string;
+}
+
+export type InteractionProviderId = 'bundled' | 'remote';
+
+/** One provider's finding for the predicted drug and one current medication. */
+export interface ProviderInteraction {
+  /** The current medication as the user entered it. */
+  medication: string;
+  severity: GradedSeverity;
+  mechanism: string;
+  management: string;
+  source: string;
+}
+
+export interface InteractionProvider {
+  id: InteractionProviderId;
+  label: string;
+  check(drugName: string, medications: string[], signal?: AbortSignal): Promise<ProviderInteraction[]>;
+}
+
+/** A finding merged across providers. */
+export interface DrugInteraction extends ProviderInteraction {
+  providers: InteractionProviderId[];
+}
+
+export interface InteractionProviderStatus {
+  provider: InteractionProviderId;
+  label: string;
+  status: 'ok' | 'unavailable';
+  error?: string;
+}
+
+export interface InteractionCheck {
+  drug: string;
+  medications: string[];
+  /** Worst first. */
+  interactions: DrugInteraction[];
+  providers: InteractionProviderStatus[];
+  /** Version of the bundled table, so saved results record what they were checked against. */
+  tableVersion: string;
+}
@@ -0,0 +1,35 @@
+import { ApiError } from '@/lib/api/client';
+import { createId, QUEUE_STORE, withStore } from '@/lib/db';
+import type { PatientFormData } from '@/types/prediction';
+
+export interface QueuedPrediction {
+  id: string;
+  /** ISO timestamp of when the prediction was requested. */
+  queuedAt: string;
+  formData: PatientFormData;
+  attempts: number;
+}
+
+/** True for failures that mean the backend could not be reached at all. */
+export function isOfflineError(error: unknown): boolean {
+  return error instanceof ApiError && error.status === null;
+}
+
+export async function queuePrediction(formData: PatientFormData): Promise<QueuedPrediction> {
+  const item: QueuedPrediction = { id: createId(), queuedAt: new Date().toISOString(), formData, attempts: 0 };
+  await withStore(QUEUE_STORE, 'readwrite', store => store.put(item));
+  return item;
+}
+
+/** Queued predictions, oldest first so they replay in the order they were made. */
+export async function listQueuedPredictions(): Promise<QueuedPrediction[]> {
+  return withStore<QueuedPrediction[]>(QUEUE_STORE, 'readonly', store => store.index('queuedAt').getAll());
+}
+
+export async function updateQueuedPrediction(item: QueuedPrediction): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.put(item));
+}
+
+export async function deleteQueuedPrediction(id: string): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.delete(id));
+}
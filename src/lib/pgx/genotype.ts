@@ -0,0 +1,161 @@
+import { PHARMACOGENES } from '@/data/pharmacogenes';
+import type {
+  GeneCall,
+  GeneDefinition,
+  GenotypeFileSummary,
+  ObservedGenotype,
+  PgxVariant,
+  StarAllele,
+} from '@/lib/pgx/types';
+import type { GeneticMarker } from '@/types/prediction';
+
+const ALL_VARIANTS: PgxVariant[] = PHARMACOGENES.flatMap(gene => gene.variants);
+const BY_RSID = new Map(ALL_VARIANTS.map(variant => [variant.rsid, variant]));
+const BY_POSITION = new Map(ALL_VARIANTS.map(variant => [`${variant.chrom}:${variant.pos}`, variant]));
+
+const COMPLEMENT: Record<string, string> = { A: 'T', T: 'A', C: 'G', G: 'C' };
+
+const normaliseChrom = (chrom: string) => chrom.replace(/^chr/i, '');
+
+/**
+ * Number of alt alleles in an observed genotype, or null when the bases fit
+ * neither allele. Calls reported on the minus strand are complemented,
+ * except for palindromic (A/T, C/G) variants where strand is ambiguous.
+ */
+export function countAltAlleles(variant: PgxVariant, observed: ObservedGenotype): number | null {
+  const fits = (bases: string[]) => bases.every(base => base === variant.ref || base === variant.alt);
+  let bases = observed.map(base => base.toUpperCase());
+  if (!fits(bases)) {
+    const palindromic = COMPLEMENT[variant.ref] === variant.alt;
+    const flipped = bases.map(base => COMPLEMENT[base] ?? base);
+    if (palindromic || !fits(flipped)) return null;
+    bases = flipped;
+  }
+  return bases.filter(base => base === variant.alt).length;
+}
+
+// VCF GT such as 0/1 or 1|1 → two bases; null for no-calls
+function vcfBases(ref: string, alts: string[], gt: string): ObservedGenotype | null {
+  const indices = gt.split(/[/|]/);
+  if (indices.some(index => index === '.' || index === '')) return null;
+  const alleles = [ref, ...alts];
+  const bases = indices.map(index => alleles[Number(index)]);
+  if (bases.some(base => base === undefined)) return null;
+  // Haploid calls (chrX/Y) are counted twice, as consumer files do
+  return bases.length === 1 ? [bases[0], bases[0]] : [bases[0], bases[1]];
+}
+
+/**
+ * Reads the supported pharmacogene variants from a VCF or a consumer
+ * raw-genotype export (23andMe four-column, AncestryDNA five-column).
+ * Everything else in the file is ignored.
+ */
+export function parseGenotypeFile(text: string): { observed: Map<string, ObservedGenotype>; summary: GenotypeFileSummary } {
+  const observed = new Map<string, ObservedGenotype>();
+  const format = /^##fileformat=VCF/m.test(text.slice(0, 2000)) ? 'vcf' : 'raw';
+  let totalRows = 0;
+  let gtIndex = -1;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line || line.startsWith('#')) continue;
+    // VCF is strictly tab-separated; raw exports use tabs or quoted CSV
+    const columns = format === 'vcf'
+      ? line.split('\t')
+      : line.trim().split(/\t|,|\s+/).map(column => column.replace(/^"|"$/g, ''));
+    if (format === 'raw' && columns[0].toLowerCase() === 'rsid') continue;
+    totalRows++;
+
+    if (format === 'vcf') {
+      const [chrom, pos, id, ref, alt, , , , formatColumn, sample] = columns;
+      if (!sample) continue;
+      const variant = id.split(';').map(rsid => BY_RSID.get(rsid)).find(Boolean) ?? BY_POSITION.get(`${normaliseChrom(chrom)}:${pos}`);
+      if (!variant) continue;
+      if (gtIndex === -1) gtIndex = formatColumn.split(':').indexOf('GT');
+      const bases = gtIndex === -1 ? null : vcfBases(ref, alt.split(','), sample.split(':')[gtIndex]);
+      if (bases) observed.set(variant.rsid, bases);
+    } else {
+      const variant = BY_RSID.get(columns[0]);
+      if (!variant) continue;
+      const call = columns.length >= 5 ? columns[3] + columns[4] : columns[3] ?? '';
+      if (!/^[ACGT]{1,2}$/i.test(call)) continue; // "--", "00", indels: no-call
+      observed.set(variant.rsid, call.length === 1 ? [call, call] : [call[0], call[1]]);
+    }
+  }
+
+  return { observed, summary: { format, matchedVariants: observed.size, totalRows } };
+}
+
+const phenotypeFor = (gene: GeneDefinition, score: number) =>
+  gene.phenotypes.find(band => score >= band.minScore)?.phenotype ?? 'Indeterminate';
+
+// Alleles ordered reference-first, then by star number, for stable "*1/*4" naming
+const alleleOrder = (gene: GeneDefinition, allele: StarAllele) => gene.alleles.indexOf(allele);
+
+/**
+ * Calls the diplotype for one gene from unphased genotypes: the pair of
+ * defined alleles whose combined variants reproduce every observed alt
+ * count. Among several fitting pairs the most specific (most genotyped
+ * defining variants) wins, so *4 is preferred over *10 + an unexplained
+ * 1846G>A, while alleles defined only by missing variants never displace
+ * the reference allele.
+ */
+export function callGene(gene: GeneDefinition, observed: Map<string, ObservedGenotype>): GeneCall {
+  const altCounts = new Map<string, number>();
+  const missingVariants: string[] = [];
+  for (const variant of gene.variants) {
+    const genotype = observed.get(variant.rsid);
+    const count = genotype ? countAltAlleles(variant, genotype) : null;
+    if (count === null) missingVariants.push(`${variant.rsid} (${variant.name})`);
+    else altCounts.set(variant.rsid, count);
+  }
+
+  const expected = (a: StarAllele, b: StarAllele, rsid: string) =>
+    Number(a.variants.includes(rsid)) + Number(b.variants.includes(rsid));
+
+  let best: [StarAllele, StarAllele] | null = null;
+  let bestSpecificity = -1;
+  gene.alleles.forEach((a, i) => gene.alleles.slice(i).forEach(b => {
+    const fits = [...altCounts].every(([rsid, count]) => expected(a, b, rsid) === count);
+    const specificity = [...a.variants, ...b.variants].filter(rsid => altCounts.has(rsid)).length;
+    if (fits && specificity > bestSpecificity) {
+      best = [a, b];
+      bestSpecificity = specificity;
+    }
+  }));
+
+  const reference = gene.alleles[0];
+  const ambiguous = best === null;
+  const [first, second] = (best ?? [reference, reference]) as [StarAllele, StarAllele];
+  const [a, b] = alleleOrder(gene, first) <= alleleOrder(gene, second) ? [first, second] : [second, first];
+  const activityScore = a.activity + b.activity;
+  const altTotal = [...altCounts.values()].reduce((sum, count) => sum + count, 0);
+
+  return {
+    gene: gene.gene,
+    genotype: gene.genotypeLabel ? gene.genotypeLabel(Math.min(altTotal, 2)) : `${a.name}/${b.name}`,
+    phenotype: ambiguous ? 'Indeterminate' : phenotypeFor(gene, activityScore),
+    activityScore,
+    missingVariants,
+    assumedReference: altCounts.size === 0,
+    ambiguous,
+    drugsAffected: gene.drugsAffected,
+  };
+}
+
+export function callPharmacogenes(observed: Map<string, ObservedGenotype>): GeneCall[] {
+  return PHARMACOGENES.map(gene => callGene(gene, observed));
+}
+
+/** Calls worth sending: at least one defining variant was genotyped and the call is unambiguous. */
+export function toGeneticMarkers(calls: GeneCall[], clinicalSignificance: (phenotype: string) => string): GeneticMarker[] {
+  return calls
+    .filter(call => !call.assumedReference && !call.ambiguous)
+    .map(call => ({
+      gene: call.gene,
+      genotype: call.genotype,
+      phenotype: call.phenotype,
+      activityScore: call.activityScore,
+      drugsAffected: call.drugsAffected,
+      clinicalSignificance: clinicalSignificance(call.phenotype),
+    }));
+}
@@ -0,0 +1,52 @@
+import { PGX_GUIDELINES, PGX_GUIDELINES_VERSION } from '@/data/pgxGuidelines';
+import { resolveDrug } from '@/lib/drugs/knowledgeBase';
+import type { GeneDrugGuideline, GuidelineRecommendation, GuidelineRule, RecommendationStrength } from '@/lib/pgx/types';
+import type { GeneticMarker } from '@/types/prediction';
+
+export const STRENGTH_LABELS: Record<RecommendationStrength, string> = {
+  strong: 'Strong',
+  moderate: 'Moderate',
+  optional: 'Optional',
+  'no recommendation': 'No recommendation',
+};
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+// Brand names and synonyms resolve to the generic names the guidelines use
+export function findGuideline(gene: string, drugName: string): GeneDrugGuideline | undefined {
+  const drug = resolveDrug(drugName).name;
+  return PGX_GUIDELINES.find(guideline => guideline.gene === gene && guideline.drugs.includes(drug));
+}
+
+function ruleMatches(rule: GuidelineRule, marker: GeneticMarker): boolean {
+  const phenotype = normalise(marker.phenotype);
+  if (!rule.phenotypes.some(candidate => normalise(candidate) === phenotype)) return false;
+  const { min = -Infinity, max = Infinity } = rule.activityScore ?? {};
+  return marker.activityScore >= min && marker.activityScore <= max;
+}
+
+/**
+ * Looks up the recommendation for `drugName` from each marker whose gene has
+ * a guideline for that drug. Markers with a phenotype the guideline does not
+ * cover (e.g. "Indeterminate") yield nothing rather than a default.
+ */
+export function recommendForDrug(drugName: string, markers: GeneticMarker[]): GuidelineRecommendation[] {
+  return markers.flatMap(marker => {
+    const guideline = findGuideline(marker.gene, drugName);
+    const rule = guideline?.rules.find(candidate => ruleMatches(candidate, marker));
+    if (!guideline || !rule) return [];
+    return [{
+      gene: marker.gene,
+      drug: resolveDrug(drugName).name,
+      genotype: marker.genotype,
+      phenotype: marker.phenotype,
+      activityScore: marker.activityScore,
+      implication: rule.implication,
+      recommendation: rule.recommendation,
+      strength: rule.strength,
+      alternatives: rule.alternatives,
+      source: guideline.source,
+      tableVersion: PGX_GUIDELINES_VERSION,
+    }];
+  });
+}
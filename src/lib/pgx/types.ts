@@ -0,0 +1,105 @@
+export type Pharmacogene = 'CYP2D6' | 'CYP2C19' | 'CYP2C9' | 'VKORC1' | 'SLCO1B1' | 'TPMT';
+
+/** A defining variant, with alleles on the GRCh37 plus strand. */
+export interface PgxVariant {
+  rsid: string;
+  chrom: string;
+  /** GRCh37 position; used for VCF rows that carry no rsID. */
+  pos: number;
+  ref: string;
+  alt: string;
+  /** HGVS-style name as used in the gene's nomenclature, e.g. "1846G>A". */
+  name: string;
+}
+
+export interface StarAllele {
+  name: string;
+  /** rsIDs whose alt allele defines this star allele; empty for the reference allele. */
+  variants: string[];
+  /** Allele activity value (CPIC activity score convention). */
+  activity: number;
+}
+
+export interface PhenotypeBand {
+  /** Inclusive lower bound of the diplotype activity score. */
+  minScore: number;
+  phenotype: string;
+}
+
+export interface GeneDefinition {
+  gene: Pharmacogene;
+  variants: PgxVariant[];
+  alleles: StarAllele[];
+  /** Ordered highest threshold first. */
+  phenotypes: PhenotypeBand[];
+  drugsAffected: string[];
+  /**
+   * Optional display override for single-SNP genes reported by genotype
+   * rather than star allele (VKORC1 -1639G>A).
+   */
+  genotypeLabel?: (altCount: number) => string;
+}
+
+/** Two observed bases for one variant, as read from the file. */
+export type ObservedGenotype = [string, string];
+
+export interface GenotypeFileSummary {
+  format: 'vcf' | 'raw';
+  /** Variants read from the file that define a supported allele. */
+  matchedVariants: number;
+  totalRows: number;
+}
+
+export interface GeneCall {
+  gene: Pharmacogene;
+  /** e.g. "*1/*4", or "G/A" for genes reported by genotype. */
+  genotype: string;
+  phenotype: string;
+  activityScore: number;
+  /** Defining variants that were absent or no-call in the file. */
+  missingVariants: string[];
+  /** True when no defining variant was genotyped, so the call is a default. */
+  assumedReference: boolean;
+  /** Set when the observed variants fit no pair of defined alleles. */
+  ambiguous: boolean;
+  drugsAffected: string[];
+}
+
+/** CPIC recommendation strength classification. */
+export type RecommendationStrength = 'strong' | 'moderate' | 'optional' | 'no recommendation';
+
+export interface GuidelineRule {
+  /** Phenotypes this rule applies to, compared case-insensitively. */
+  phenotypes: string[];
+  /** Inclusive activity-score range, for guidelines that split a phenotype by score. */
+  activityScore?: { min?: number; max?: number };
+  implication: string;
+  recommendation: string;
+  strength: RecommendationStrength;
+  /** Alternative actions or drugs, most preferred first. */
+  alternatives: string[];
+}
+
+export interface GeneDrugGuideline {
+  gene: Pharmacogene;
+  /** Lowercase generic names covered by the guideline. */
+  drugs: string[];
+  source: string;
+  /** Checked in order; the first matching rule wins. */
+  rules: GuidelineRule[];
+}
+
+export interface GuidelineRecommendation {
+  gene: string;
+  drug: string;
+  genotype: string;
+  phenotype: string;
+  activityScore: number;
+  implication: string;
+  recommendation: string;
+  strength: RecommendationStrength;
+  alternatives: string[];
+  source: string;
+  /** Version of the bundled guideline table the recommendation came from. */
+  tableVersion: string;
+}
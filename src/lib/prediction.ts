@@ -0,0 +1,456 @@
+import { screenAllergies } from '@/lib/allergy/screening';
+import { ApiError, GeneticProfilePayload, predictEnhanced, predictStandard } from '@/lib/api/client';
+import type { DrugDocument, EnhancedPredictionResponse, StandardPredictionResponse } from '@/lib/api/schemas';
+import { checkContraindications, LEVEL_LABELS } from '@/lib/conditions/contraindications';
+import { parseConditions } from '@/lib/conditions/parse';
+import { calculateDose } from '@/lib/dosing/engine';
+import type { DoseRecommendation } from '@/lib/dosing/types';
+import { fetchRealTimeDrugInfo } from '@/lib/drugInfo';
+import { DrugMonograph, lookupDrug } from '@/lib/drugs/knowledgeBase';
+import { findSection, summariseSection } from '@/lib/fdaLabel';
+import { checkInteractions } from '@/lib/interactions/check';
+import { recommendForDrug } from '@/lib/pgx/guidelines';
+import { buildRegimenResult, RegimenEntry, RegimenResult } from '@/lib/regimen';
+import type {
+  AllergyEntry,
+  AllergySeverity,
+  GeneticMarker,
+  MedicationEntry,
+  PatientFormData,
+  PredictionResult,
+} from '@/types/prediction';
+
+// Structured history rows the user actually filled in
+export function recordedAllergies(data: PatientFormData): AllergyEntry[] {
+  return data.allergies.filter(allergy => allergy.substance.trim());
+}
+
+export function recordedMedications(data: PatientFormData): MedicationEntry[] {
+  return data.currentMedications.filter(medication => medication.drug.trim());
+}
+
+// Uploaded genotype calls in the enhanced API's genetic_profile shape
+function geneticProfileOf(data: PatientFormData): GeneticProfilePayload | undefined {
+  if (!data.genotypes?.length) return undefined;
+  return {
+    source: 'uploaded',
+    genetic_markers: Object.fromEntries(data.genotypes.map(marker => [marker.gene, {
+      genotype: marker.genotype,
+      phenotype: marker.phenotype,
+      activity_score: marker.activityScore,
+      drugs_affected: marker.drugsAffected
+    }]))
+  };
+}
+
+// Backend markers first; uploaded calls fill in any gene the backend did not report
+function withUploadedGenotypes(markers: GeneticMarker[], data: PatientFormData): GeneticMarker[] {
+  const reported = new Set(markers.map(marker => marker.gene));
+  return [...markers, ...(data.genotypes ?? []).filter(marker => !reported.has(marker.gene))];
+}
+
+// Full regimen: the primary medicine followed by any additional ones
+export function regimenDrugsOf(data: PatientFormData): string[] {
+  const drugs = [data.medicineName, ...data.additionalMedicines].map(drug => drug.trim()).filter(Boolean);
+  return drugs.filter((drug, index) => drugs.findIndex(other => other.toLowerCase() === drug.toLowerCase()) === index);
+}
+
+/** Throws an Error whose message contains "required" for the first invalid field. */
+export function validatePatientForm(data: PatientFormData): void {
+  if (!data.medicineName.trim()) {
+    throw new Error('Medicine name is required');
+  }
+  if (!data.gender) {
+    throw new Error('Gender is required');
+  }
+  if (!data.height || parseFloat(data.height) <= 0) {
+    throw new Error('Valid height is required');
+  }
+  if (!data.weight || parseFloat(data.weight) <= 0) {
+    throw new Error('Valid weight is required');
+  }
+  if (!data.age || data.age <= 0 || data.age > 120) {
+    throw new Error('Valid age between 1 and 120 is required');
+  }
+}
+
+// Rule-based dose for the given patient; see src/data/dosingRules.ts
+export function calculateDosage(drugName: string, data: PatientFormData): DoseRecommendation {
+  const serumCreatinine = parseFloat(data.serumCreatinine);
+  return calculateDose(drugName, {
+    age: Number(data.age),
+    weightKg: parseFloat(data.weight),
+    heightCm: parseFloat(data.height),
+    gender: data.gender,
+    serumCreatinine: serumCreatinine > 0 ? serumCreatinine : undefined,
+    hepaticImpairment: data.hepaticImpairment,
+    currentMedications: recordedMedications(data).map(medication => medication.drug)
+  });
+}
+
+/**
+ * Runs the enhanced prediction for one drug, falling back to the standard
+ * API when the enhanced endpoint answers with an HTTP error.
+ */
+export async function requestPrediction(drugName: string, data: PatientFormData): Promise<PredictionResult> {
+  const startTime = Date.now();
+
+  // Generate unique patient ID
+  const patientId = `patient_${Date.now()}`;
+  const geneticProfile = geneticProfileOf(data);
+
+  // Try enhanced API first
+  const enhancedData = {
+    patient_id: patientId,
+    age: Number(data.age),
+    gender: data.gender,
+    height: parseFloat(data.height),
+    weight: parseFloat(data.weight),
+    drug_name: drugName.trim(),
+    chronic_conditions: data.chronicConditions || 'None',
+    coded_conditions: parseConditions(data.chronicConditions).conditions.map(condition => ({
+      icd10: condition.icd10,
+      snomed: condition.snomed,
+      display: condition.name
+    })),
+    allergies: recordedAllergies(data).map(allergy => ({
+      substance: allergy.substance.trim(),
+      reaction: allergy.reaction.trim(),
+      severity: allergy.severity
+    })),
+    current_medications: recordedMedications(data).map(medication => ({
+      drug_name: medication.drug.trim(),
+      dose: medication.dose.trim(),
+      frequency: medication.frequency.trim()
+    })),
+    genetic_profile: geneticProfile
+  };
+
+  let enhancedResult: EnhancedPredictionResponse | null = null;
+  let standardResult: StandardPredictionResponse | null = null;
+
+  try {
+    enhancedResult = await predictEnhanced(enhancedData);
+  } catch (enhancedError) {
+    // Only an HTTP failure falls back; malformed payloads surface as-is
+    if (!(enhancedError instanceof ApiError) || enhancedError.status === null) throw enhancedError;
+
+    // Fall back to standard API
+    const standardData = {
+      patient_age: Number(data.age),
+      patient_gender: data.gender,
+      patient_height_cm: parseFloat(data.height),
+      patient_weight_kg: parseFloat(data.weight),
+      patient_diagnosis: data.chronicConditions || 'General Health Assessment',
+      drug_name: drugName,
+      genetic_profile: geneticProfile
+    };
+
+    standardResult = await predictStandard(standardData);
+  }
+
+  const endTime = Date.now();
+  const predictionTime = endTime - startTime;
+
+  // Map API response to frontend format
+  const mappedResult = enhancedResult ?
+    mapEnhancedApiResponse(enhancedResult, predictionTime, drugName, data) :
+    mapStandardApiResponse(standardResult as StandardPredictionResponse, predictionTime, drugName, data);
+  return enrichPrediction(mappedResult, drugName, data);
+}
+
+/**
+ * Adds what neither prediction endpoint returns: an explanation when the
+ * backend gave none, the drug's FDA label sections and the interaction check
+ * against current medications. Single, regimen and batch predictions all pass
+ * through here.
+ */
+async function enrichPrediction(result: PredictionResult, drugName: string, data: PatientFormData): Promise<PredictionResult> {
+  const name = result.drugName || drugName;
+  const medications = result.patientData?.currentMedications ?? recordedMedications(data);
+
+  // The drug document is cached, so the explanation and the label share one lookup
+  const [drugDocument, interactionCheck] = await Promise.all([
+    fetchRealTimeDrugInfo(name),
+    checkInteractions(name, medications.map(medication => medication.drug)),
+  ]);
+
+  const enriched: PredictionResult = {
+    ...result,
+    explanation: result.explanation || generateMedicineExplanation(name, data, drugDocument),
+    fdaLabel: drugDocument?.fda?.sections,
+    interactionCheck,
+  };
+  return { ...enriched, warnings: safetyWarningsOf(enriched) };
+}
+
+// Boxed warning, allergy, contraindication and interaction findings as plain lines
+function safetyWarningsOf(result: PredictionResult): string[] {
+  const boxedWarning = findSection(result.fdaLabel, 'boxed_warning');
+  return [
+    ...(boxedWarning ? [`Boxed warning: ${boxedWarning.headline ?? boxedWarning.title}`] : []),
+    ...(result.allergyScreening?.matches ?? []).map(match => `Allergy: ${match.reason}`),
+    ...(result.contraindicationCheck?.flagged ?? []).map(flag =>
+      `${LEVEL_LABELS[flag.level]} with ${flag.condition.name}: ${flag.recommendation}`),
+    ...(result.interactionCheck?.interactions ?? []).map(interaction =>
+      `Interaction with ${interaction.medication} (${interaction.severity}): ${interaction.management}`),
+  ];
+}
+
+/**
+ * Runs one prediction per regimen drug in parallel; a failure for one drug
+ * is recorded on its entry instead of aborting the whole regimen.
+ */
+export async function requestRegimenPrediction(data: PatientFormData): Promise<RegimenResult> {
+  const drugs = regimenDrugsOf(data);
+  const settled = await Promise.allSettled(drugs.map(drug => requestPrediction(drug, data)));
+  const entries: RegimenEntry[] = settled.map((outcome, index) =>
+    outcome.status === 'fulfilled'
+      ? { drug: drugs[index], result: outcome.value }
+      : { drug: drugs[index], error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) }
+  );
+  if (entries.every(entry => entry.error)) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  return buildRegimenResult(entries);
+}
+
+// Helper function to map enhanced API response
+function mapEnhancedApiResponse(
+  result: EnhancedPredictionResponse,
+  predictionTime: number,
+  drugName: string,
+  data: PatientFormData
+): PredictionResult {
+  const prediction = result.prediction;
+  const patientData = result.patient_data ?? {};
+  const drugInfo = result.drug_info ?? {};
+  const dosing = calculateDosage(drugName, data);
+  const geneticMarkers = withUploadedGenotypes(mapGeneticMarkers(result.genetic_profile?.genetic_markers ?? {}), data);
+  const allergies = patientData.allergies?.map((allergy): AllergyEntry => ({
+    substance: allergy.substance,
+    reaction: allergy.reaction ?? '',
+    severity: toAllergySeverity(allergy.severity)
+  })) ?? recordedAllergies(data);
+
+  return {
+    prediction: prediction.label,
+    confidence: prediction.confidence,
+    isRealAI: true,
+    isEnhanced: true,
+    drugName,
+    dosage: dosing.display,
+    dosing,
+    explanation: result.explanation || result.analysis_summary ||
+                 `AI prediction completed in ${predictionTime}ms using real-time patient data, genetic profile, and comprehensive drug information. Confidence: ${Math.round(prediction.confidence * 100)}%. ${prediction.reasoning || ''}`,
+    patientData: {
+      demographics: patientData.demographics ?? {},
+      vitals: patientData.current_vitals ?? {},
+      medicalHistory: patientData.medical_history ?? [],
+      allergies,
+      currentMedications: patientData.current_medications?.map((medication): MedicationEntry => ({
+        drug: medication.drug_name,
+        dose: medication.dose ?? '',
+        frequency: medication.frequency ?? ''
+      })) ?? recordedMedications(data)
+    },
+    geneticMarkers,
+    pgxGuidance: recommendForDrug(drugName, geneticMarkers),
+    allergyScreening: screenAllergies(drugName, allergies),
+    contraindicationCheck: checkContraindications(drugName, data.chronicConditions),
+    drugInfo: {
+      rxnormData: drugInfo.rxnorm_data ?? {},
+      fdaData: drugInfo.fda_data ?? {},
+      interactions: drugInfo.interactions ?? {},
+      dosageInfo: drugInfo.dosage_info ?? {}
+    },
+    clinicalRecommendations: result.clinical_recommendations ?? [],
+    medicalHistory: patientData.medical_history?.join(', ') || data.chronicConditions || 'No specific contraindications noted',
+    responseTime: predictionTime,
+    source: 'enhanced_realtime_api'
+  };
+}
+
+// Helper function to map standard API response
+function mapStandardApiResponse(
+  result: StandardPredictionResponse,
+  predictionTime: number,
+  drugName: string,
+  data: PatientFormData
+): PredictionResult {
+  const dosing = calculateDosage(result.drug_name ?? drugName, data);
+  const geneticMarkers = withUploadedGenotypes(result.genetic_markers ?? [], data);
+
+  return {
+    prediction: result.label,
+    confidence: result.confidence,
+    isRealAI: true,
+    isEnhanced: false,
+    drugName: result.drug_name ?? drugName,
+    dosage: dosing.display,
+    dosing,
+    explanation: result.explanation || result.analysis_summary || generateExplanation(result, drugName, predictionTime),
+    medicineSuitability: result.medicine_suitability ?? null,
+    geneticMarkers,
+    pgxGuidance: recommendForDrug(result.drug_name ?? drugName, geneticMarkers),
+    allergyScreening: screenAllergies(result.drug_name ?? drugName, recordedAllergies(data)),
+    contraindicationCheck: checkContraindications(result.drug_name ?? drugName, data.chronicConditions),
+    medicalHistory: data.chronicConditions || 'No specific contraindications noted',
+    responseTime: predictionTime,
+    source: 'standard_api'
+  };
+}
+
+function toAllergySeverity(severity: string | undefined): AllergySeverity {
+  const normalised = severity?.trim().toLowerCase();
+  return normalised === 'mild' || normalised === 'moderate' || normalised === 'severe' ? normalised : 'unknown';
+}
+
+// Helper function to map genetic markers from enhanced API
+function mapGeneticMarkers(
+  geneticData: NonNullable<NonNullable<EnhancedPredictionResponse['genetic_profile']>['genetic_markers']>
+): GeneticMarker[] {
+  return Object.entries(geneticData).map(([gene, data]) => ({
+    gene,
+    genotype: data.genotype,
+    phenotype: data.phenotype,
+    activityScore: data.activity_score,
+    drugsAffected: data.drugs_affected ?? [],
+    clinicalSignificance: getClinicalSignificance(data.phenotype)
+  }));
+}
+
+// Helper function to get clinical significance
+export function getClinicalSignificance(phenotype: string) {
+  if (phenotype.includes('Poor') || phenotype.includes('High')) return 'High - Requires dose adjustment';
+  if (phenotype.includes('Intermediate') || phenotype.includes('Decreased')) return 'Moderate - Monitor closely';
+  if (/rapid/i.test(phenotype)) return 'Moderate - May need higher doses';
+  return 'Normal - Standard dosing appropriate';
+}
+
+// Therapeutic class and indications from the bundled knowledge base; drugs it
+// does not know fall back to a generic description
+export function getDrugInfo(drugName: string) {
+  const entry = lookupDrug(drugName);
+  return {
+    category: entry?.drugClass?.name ?? 'Medication',
+    uses: entry?.drug?.indications ?? 'the conditions listed on its product label'
+  };
+}
+
+function generateExplanation(apiResult: StandardPredictionResponse, drugName: string, predictionTime?: number): string {
+  const confidence = Math.round(apiResult.confidence * 100);
+  const predictionLabel = apiResult.label;
+  const timeInfo = predictionTime ? ` Analysis completed in ${predictionTime}ms using real-time AI processing.` : '';
+  const drugInfo = getDrugInfo(apiResult.drug_name || drugName);
+
+  const drugContext = `${drugInfo.category} commonly prescribed for ${drugInfo.uses}`;
+
+  if (predictionLabel === 'Effective') {
+    return `The AI model analyzed the patient's profile for ${drugContext}. The analysis predicts an effective response with ${confidence}% confidence. Based on the patient's age, BMI, and medical history, the drug is expected to provide therapeutic benefits with minimal adverse effects.${timeInfo}`;
+  } else if (predictionLabel === 'Ineffective') {
+    return `The AI model analyzed ${drugContext} and predicts limited effectiveness for this medication with ${confidence}% confidence. Alternative treatments or dosage adjustments may be considered based on the patient's specific profile and medical history.${timeInfo}`;
+  } else {
+    return `The AI model analyzed ${drugContext} and indicates potential risks or adverse effects with ${confidence}% confidence. Close monitoring and consultation with healthcare professionals is recommended for this patient-drug combination.${timeInfo}`;
+  }
+}
+
+type MedicineInfo = Pick<DrugMonograph, 'uses' | 'effects' | 'precautions'>;
+
+// Used when neither the knowledge base nor the drug databases know the drug's class
+const GENERIC_DRUG_INFO = {
+  effects: 'This medication works by targeting specific pathways in your body to provide therapeutic benefits.',
+  precautions: 'Follow your doctor\'s instructions carefully and report any unusual side effects or concerns.'
+};
+
+// Patient-facing explanation from the real-time drug document, falling back to the knowledge base
+function generateMedicineExplanation(drugName: string, data: PatientFormData, realTimeInfo: DrugDocument | null): string {
+  const drugInfo = getDrugInfo(drugName);
+  const patientAge = data.age;
+  const patientConditions = data.chronicConditions.toLowerCase();
+
+  const drug = drugName.toLowerCase();
+  const knowledgeBaseEntry = lookupDrug(drugName);
+  let medicineInfo: MedicineInfo | undefined = knowledgeBaseEntry?.drug;
+
+  // Prioritize real-time drug information over static data
+  if (realTimeInfo && realTimeInfo.real_time_data) {
+    // Use FDA data if available (most comprehensive)
+    if (realTimeInfo.fda && realTimeInfo.fda.found) {
+      const fdaInfo = realTimeInfo.fda;
+      // Only the opening of each label section goes into the text; the full label is shown in its own panels
+      const boxedWarning = findSection(fdaInfo.sections, 'boxed_warning');
+      const indications = summariseSection(findSection(fdaInfo.sections, 'indications')) ?? fdaInfo.indications?.[0];
+      const dosage = summariseSection(findSection(fdaInfo.sections, 'dosage'));
+      const warnings = summariseSection(findSection(fdaInfo.sections, 'warnings') ?? findSection(fdaInfo.sections, 'contraindications'));
+      medicineInfo = {
+        uses: `${drugName} (${fdaInfo.generic_name?.[0] || drugName}) is an FDA-approved medication. ${indications || 'It is used for therapeutic treatment.'}`,
+        effects: dosage ? `Dosage information: ${dosage}` : 'This medication is approved by the FDA for the treatment of specific medical conditions.',
+        precautions: boxedWarning
+          ? `This medicine carries a boxed warning (${boxedWarning.headline ?? 'see the label below'}). ${warnings ?? ''}`
+          : warnings ?? 'Follow your doctor\'s instructions carefully and report any unusual side effects or concerns.'
+      };
+    }
+    // Use RxNorm data if available
+    else if (realTimeInfo.rxnorm && realTimeInfo.rxnorm.found) {
+      const rxnormInfo = realTimeInfo.rxnorm;
+      const primaryConcept = rxnormInfo.concepts[0];
+      medicineInfo = {
+        uses: `${drugName} is a standardized medication (RxCUI: ${primaryConcept.rxcui}) used for therapeutic treatment.`,
+        effects: `This medication is recognized in the RxNorm database with ${rxnormInfo.total_concepts} related concepts.`,
+        precautions: 'Follow your doctor\'s instructions carefully and report any unusual side effects or concerns.'
+      };
+    }
+    // Use PubChem data if available
+    else if (realTimeInfo.pubchem && realTimeInfo.pubchem.found) {
+      const pubchemInfo = realTimeInfo.pubchem;
+      medicineInfo = {
+        uses: `${drugName} is a chemical compound (Molecular Formula: ${pubchemInfo.molecular_formula}, Molecular Weight: ${pubchemInfo.molecular_weight}) used for therapeutic treatment.`,
+        effects: `This compound has the chemical structure: ${pubchemInfo.canonical_smiles || pubchemInfo.isomeric_smiles || 'Structure not available'}.`,
+        precautions: 'Follow your doctor\'s instructions carefully and report any unusual side effects or concerns.'
+      };
+    }
+  }
+  // Fallback to backend API data
+  else if (realTimeInfo && realTimeInfo.drugbank) {
+    const drugbankInfo = realTimeInfo.drugbank;
+    medicineInfo = {
+      uses: `${drugName} is a medication used for ${drugbankInfo.indication || drugInfo.uses}.`,
+      effects: drugbankInfo.mechanism_of_action || drugbankInfo.pharmacodynamics || 'This medication works by targeting specific pathways in your body to provide therapeutic benefits.',
+      precautions: drugbankInfo.warnings ? drugbankInfo.warnings.join('. ') : 'Follow your doctor\'s instructions carefully and report any unusual side effects or concerns.'
+    };
+  }
+  // Use the knowledge base's class description as last resort
+  if (!medicineInfo) {
+    const categoryInfo = knowledgeBaseEntry?.drugClass ?? GENERIC_DRUG_INFO;
+    medicineInfo = {
+      uses: `${drugName} is a ${drugInfo.category} medication used for ${drugInfo.uses}.`,
+      effects: categoryInfo.effects,
+      precautions: categoryInfo.precautions
+    };
+  }
+
+  // Add age-specific considerations
+  let ageConsideration = '';
+  if (patientAge > 65) {
+    ageConsideration = ' Given your age, your doctor may start with a lower dose and monitor you more closely.';
+  } else if (patientAge < 18) {
+    ageConsideration = ' Pediatric dosing may be required with careful monitoring.';
+  }
+
+  // Add condition-specific considerations
+  let conditionConsideration = '';
+  if (patientConditions.includes('diabetes') && !drug.includes('metformin') && !drug.includes('insulin')) {
+    conditionConsideration = ' Your diabetes condition requires careful monitoring of blood sugar levels while taking this medication.';
+  } else if (patientConditions.includes('hypertension') && !drug.includes('lisinopril') && !drug.includes('metoprolol')) {
+    conditionConsideration = ' Your blood pressure should be monitored regularly while taking this medication.';
+  } else if (patientConditions.includes('heart') && !drug.includes('lisinopril') && !drug.includes('metoprolol')) {
+    conditionConsideration = ' Your heart condition requires careful monitoring while taking this medication.';
+  } else if (patientConditions.includes('kidney') || patientConditions.includes('renal')) {
+    conditionConsideration = ' Your kidney function should be monitored regularly while taking this medication.';
+  } else if (patientConditions.includes('liver') || patientConditions.includes('hepatic')) {
+    conditionConsideration = ' Your liver function should be monitored regularly while taking this medication.';
+  }
+
+  return `${medicineInfo.uses} ${medicineInfo.effects} ${medicineInfo.precautions}${ageConsideration}${conditionConsideration}`;
+}
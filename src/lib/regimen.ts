@@ -0,0 +1,157 @@
+import { resolveDrug } from '@/lib/drugs/knowledgeBase';
+import { findRule } from '@/lib/interactions/bundled';
+import type { PredictionResult } from '@/types/prediction';
+
+export type InteractionSeverity = 'major' | 'moderate' | 'minor' | 'unknown';
+
+export interface InteractionHit {
+  drug: string;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export interface RegimenEntry {
+  drug: string;
+  result?: PredictionResult;
+  error?: string;
+}
+
+export interface InteractionCell {
+  severity: InteractionSeverity | null;
+  descriptions: string[];
+}
+
+export interface RegimenRiskSummary {
+  level: 'high' | 'moderate' | 'low';
+  reasons: string[];
+  outcomeCounts: Record<string, number>;
+  interactionCounts: Record<InteractionSeverity, number>;
+  failedDrugs: string[];
+}
+
+export interface RegimenResult {
+  entries: RegimenEntry[];
+  matrix: InteractionCell[][];
+  summary: RegimenRiskSummary;
+}
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = { major: 3, moderate: 2, minor: 1, unknown: 0 };
+
+const normaliseSeverity = (value: unknown): InteractionSeverity => {
+  const text = String(value ?? '').toLowerCase();
+  if (/major|severe|high|contraindicated/.test(text)) return 'major';
+  if (/moderate|medium/.test(text)) return 'moderate';
+  if (/minor|low|mild/.test(text)) return 'minor';
+  return 'unknown';
+};
+
+const toHit = (drug: string, detail: unknown): InteractionHit => {
+  if (typeof detail === 'string') return { drug, severity: normaliseSeverity(detail), description: detail };
+  const record = (detail ?? {}) as Record<string, unknown>;
+  return {
+    drug,
+    severity: normaliseSeverity(record.severity ?? record.level),
+    description: String(record.description ?? record.effect ?? record.recommendation ?? ''),
+  };
+};
+
+/**
+ * Normalises the enhanced API's `drug_info.interactions` object. The backend
+ * either lists interactions under an array (`interactions`, `drug_interactions`
+ * or `major_interactions`) or keys them by interacting drug name.
+ */
+export function extractInteractions(interactions: Record<string, unknown> | undefined): InteractionHit[] {
+  if (!interactions) return [];
+  const listed = ['interactions', 'drug_interactions', 'major_interactions']
+    .map(key => interactions[key])
+    .find(Array.isArray) as unknown[] | undefined;
+
+  if (listed) {
+    return listed.flatMap(item => {
+      if (typeof item === 'string') return [{ drug: item, severity: 'unknown' as const, description: '' }];
+      const record = (item ?? {}) as Record<string, unknown>;
+      const drug = record.drug ?? record.drug_name ?? record.interacting_drug ?? record.name;
+      return typeof drug === 'string' ? [toHit(drug, record)] : [];
+    });
+  }
+
+  return Object.entries(interactions)
+    .filter(([, detail]) => typeof detail === 'string' || (typeof detail === 'object' && detail !== null && !Array.isArray(detail)))
+    .map(([drug, detail]) => toHit(drug, detail));
+}
+
+const mentions = (hit: InteractionHit, drug: string) => {
+  const a = hit.drug.toLowerCase();
+  const b = drug.toLowerCase();
+  return a.includes(b) || b.includes(a);
+};
+
+// The bundled table's rule for the pair, as a hit against the other drug
+const bundledHits = (a: string, b: string): InteractionHit[] => {
+  const rule = findRule(resolveDrug(a), resolveDrug(b));
+  return rule ? [{ drug: b, severity: rule.severity, description: rule.management }] : [];
+};
+
+/**
+ * Builds a symmetric N×N matrix. A pair is flagged when the bundled
+ * interaction table has a rule for it or either drug's backend interaction
+ * list mentions the other; the worse severity wins. The bundled table covers
+ * drugs whose prediction failed or fell back to the standard API.
+ */
+export function buildInteractionMatrix(entries: RegimenEntry[]): InteractionCell[][] {
+  const hitsByDrug = entries.map(entry => extractInteractions(entry.result?.drugInfo?.interactions));
+
+  return entries.map((rowEntry, i) =>
+    entries.map((colEntry, j) => {
+      if (i === j) return { severity: null, descriptions: [] };
+      const hits = [
+        ...bundledHits(rowEntry.drug, colEntry.drug),
+        ...hitsByDrug[i].filter(hit => mentions(hit, colEntry.drug)),
+        ...hitsByDrug[j].filter(hit => mentions(hit, rowEntry.drug)),
+      ];
+      if (hits.length === 0) return { severity: null, descriptions: [] };
+      const severity = hits.reduce<InteractionSeverity>(
+        (worst, hit) => (SEVERITY_RANK[hit.severity] > SEVERITY_RANK[worst] ? hit.severity : worst),
+        'unknown'
+      );
+      return { severity, descriptions: [...new Set(hits.map(hit => hit.description).filter(Boolean))] };
+    })
+  );
+}
+
+export function summariseRegimenRisk(entries: RegimenEntry[], matrix: InteractionCell[][]): RegimenRiskSummary {
+  const outcomeCounts: Record<string, number> = {};
+  const interactionCounts: Record<InteractionSeverity, number> = { major: 0, moderate: 0, minor: 0, unknown: 0 };
+  const reasons: string[] = [];
+
+  for (const entry of entries) {
+    if (!entry.result) continue;
+    outcomeCounts[entry.result.prediction] = (outcomeCounts[entry.result.prediction] ?? 0) + 1;
+  }
+
+  // Upper triangle only: the matrix is symmetric
+  matrix.forEach((row, i) => row.forEach((cell, j) => {
+    if (j > i && cell.severity) interactionCounts[cell.severity] += 1;
+  }));
+
+  const risky = entries.filter(entry => entry.result?.prediction === 'Risky/Adverse').map(entry => entry.drug);
+  const ineffective = entries.filter(entry => entry.result?.prediction === 'Ineffective').map(entry => entry.drug);
+  const failedDrugs = entries.filter(entry => entry.error).map(entry => entry.drug);
+
+  if (interactionCounts.major > 0) reasons.push(`${interactionCounts.major} major drug–drug interaction(s)`);
+  if (risky.length > 0) reasons.push(`Risky/adverse response predicted for ${risky.join(', ')}`);
+  if (interactionCounts.moderate > 0) reasons.push(`${interactionCounts.moderate} moderate drug–drug interaction(s)`);
+  if (ineffective.length > 0) reasons.push(`Limited effectiveness predicted for ${ineffective.join(', ')}`);
+  if (failedDrugs.length > 0) reasons.push(`No prediction available for ${failedDrugs.join(', ')}`);
+
+  const level = interactionCounts.major > 0 || risky.length > 0 ? 'high'
+    : interactionCounts.moderate > 0 || ineffective.length > 0 || failedDrugs.length > 0 ? 'moderate'
+    : 'low';
+
+  return { level, reasons, outcomeCounts, interactionCounts, failedDrugs };
+}
+
+export function buildRegimenResult(entries: RegimenEntry[]): RegimenResult {
+  const matrix = buildInteractionMatrix(entries);
+  return { entries, matrix, summary: summariseRegimenRisk(entries, matrix) };
+}
@@ -0,0 +1,151 @@
+import type { SystemStatus } from '@/lib/api/schemas';
+import { filenameSlug } from '@/lib/download';
+import { recordedAllergies, recordedMedications } from '@/lib/prediction';
+import type {
+  AllergyEntry,
+  MedicationEntry,
+  PatientFormData,
+  PredictionResult,
+} from '@/types/prediction';
+
+/** Bumped whenever the shape of `ClinicalReport` changes. */
+export const REPORT_FORMAT_VERSION = 1;
+
+export interface ReportGeneticMarker {
+  gene: string;
+  genotype: string;
+  phenotype: string;
+  activityScore: number;
+  clinicalSignificance: string;
+  drugsAffected: string[];
+}
+
+/**
+ * Everything shown on the results screen, in one serialisable document.
+ * The printed report and the JSON export are both rendered from this.
+ */
+export interface ClinicalReport {
+  reportFormatVersion: number;
+  generatedAt: string;
+  modelVersion: string | null;
+  source: string | null;
+  patient: {
+    age: number;
+    gender: string;
+    weightKg: number | null;
+    heightCm: number | null;
+    bmi: number | null;
+    serumCreatinineMgDl: number | null;
+    hepaticImpairment: string;
+    chronicConditions: string;
+    allergies: AllergyEntry[];
+    currentMedications: MedicationEntry[];
+  };
+  prediction: {
+    drug: string;
+    outcome: string;
+    predictedClass: string;
+    confidence: number;
+    dosage: string | null;
+    dosingBasis: string[];
+    explanation: string | null;
+    responseTimeMs: number | null;
+  };
+  suitability: {
+    status: string;
+    score: number;
+    recommendation: string;
+    assessmentFactors: Array<{ factor: string; impact: string; description: string; recommendation: string }>;
+    monitoringRequired: boolean;
+    interactionCount: number;
+  } | null;
+  warnings: string[];
+  pharmacogenetics: ReportGeneticMarker[];
+  recommendations: string[];
+  nextSteps: string[];
+}
+
+const PREDICTED_CLASSES: Record<string, string> = {
+  Ineffective: 'Class 0',
+  Effective: 'Class 1',
+  'Risky/Adverse': 'Class 2',
+};
+
+/** Reported for any outcome label the model is not known to produce. */
+export const UNKNOWN_PREDICTED_CLASS = 'Unknown';
+
+export const predictedClassOf = (outcome: string) => PREDICTED_CLASSES[outcome] ?? UNKNOWN_PREDICTED_CLASS;
+
+const positiveOrNull = (value: string) => {
+  const parsed = parseFloat(value);
+  return parsed > 0 ? parsed : null;
+};
+
+const reportMarkers = (result: PredictionResult): ReportGeneticMarker[] =>
+  (result.geneticMarkers ?? []).map(marker => ({
+    gene: marker.gene,
+    genotype: marker.genotype,
+    phenotype: marker.phenotype,
+    activityScore: marker.activityScore,
+    clinicalSignificance: marker.clinicalSignificance,
+    drugsAffected: marker.drugsAffected,
+  }));
+
+export function buildClinicalReport(
+  formData: PatientFormData,
+  result: PredictionResult,
+  systemStatus: SystemStatus | null,
+  generatedAt: Date = new Date()
+): ClinicalReport {
+  const weightKg = positiveOrNull(formData.weight);
+  const heightCm = positiveOrNull(formData.height);
+  const suitability = result.medicineSuitability;
+
+  return {
+    reportFormatVersion: REPORT_FORMAT_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    modelVersion: systemStatus?.version ?? null,
+    source: result.source ?? null,
+    patient: {
+      age: formData.age,
+      gender: formData.gender,
+      weightKg,
+      heightCm,
+      bmi: weightKg && heightCm ? Number((weightKg / (heightCm / 100) ** 2).toFixed(1)) : null,
+      serumCreatinineMgDl: positiveOrNull(formData.serumCreatinine),
+      hepaticImpairment: formData.hepaticImpairment,
+      chronicConditions: formData.chronicConditions,
+      allergies: result.patientData?.allergies ?? recordedAllergies(formData),
+      currentMedications: result.patientData?.currentMedications ?? recordedMedications(formData),
+    },
+    prediction: {
+      drug: result.drugName ?? formData.medicineName,
+      outcome: result.prediction,
+      predictedClass: predictedClassOf(result.prediction),
+      confidence: result.confidence,
+      dosage: result.dosage ?? null,
+      dosingBasis: result.dosing?.steps.map(step => `${step.rule}: ${step.detail}`) ?? [],
+      explanation: result.explanation ?? null,
+      responseTimeMs: result.responseTime ?? null,
+    },
+    suitability: suitability ? {
+      status: suitability.overall_suitability.status,
+      score: suitability.overall_suitability.score,
+      recommendation: suitability.overall_suitability.recommendation,
+      assessmentFactors: suitability.assessment_factors,
+      monitoringRequired: suitability.safety_information.monitoring_required,
+      interactionCount: suitability.safety_information.interactions.interaction_count,
+    } : null,
+    warnings: [...(suitability?.safety_information.warnings ?? []), ...(result.warnings ?? [])],
+    pharmacogenetics: reportMarkers(result),
+    recommendations: [
+      ...(suitability?.personalized_recommendations ?? []),
+      ...(result.clinicalRecommendations ?? []),
+    ],
+    nextSteps: suitability?.next_steps ?? [],
+  };
+}
+
+export function reportFilename(report: ClinicalReport, extension: string): string {
+  return `drug-response-report-${filenameSlug(report.prediction.drug)}-${report.generatedAt.slice(0, 10)}.${extension}`;
+}
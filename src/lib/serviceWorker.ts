@@ -0,0 +1,38 @@
+/**
+ * Registers public/sw.js. Skipped in development, where a caching worker
+ * would serve stale bundles over hot reloads.
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (process.env.NODE_ENV !== 'production' || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return null;
+  }
+  try {
+    const registration = await navigator.serviceWorker.register('/sw.js');
+    console.log('📦 Service worker registered for offline use:', registration.scope);
+    return registration;
+  } catch (error) {
+    console.log('Service worker registration failed:', error);
+    return null;
+  }
+}
+
+// Asked once something is queued, so the prompt has an obvious reason
+export async function requestNotificationPermission(): Promise<void> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch (error) {
+    console.log('Notification permission request failed:', error);
+  }
+}
+
+/** System notification, shown only while the page is in the background. */
+export async function showSystemNotification(title: string, body: string): Promise<void> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted' || !document.hidden) return;
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, { body, tag: 'queued-prediction' });
+  } else {
+    new Notification(title, { body });
+  }
+}
@@ -0,0 +1,143 @@
+// Minimal runtime schema validation for untrusted JSON (backend payloads,
+// uploaded files). Every failure reports the dotted path of the offending
+// field so that malformed data surfaces as a clear error instead of being
+// silently defaulted.
+
+export class SchemaValidationError extends Error {
+  readonly path: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`Invalid field "${path || '(root)'}": expected ${expected}, received ${describe(received)}`);
+    this.name = 'SchemaValidationError';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  if (typeof value === 'number') return `number ${value}`;
+  return typeof value;
+};
+
+export const joinPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string = (options: { nonEmpty?: boolean } = {}): Schema<string> => ({
+  parse(value, path = '') {
+    if (typeof value !== 'string' || (options.nonEmpty && value.trim() === '')) {
+      throw new SchemaValidationError(path, options.nonEmpty ? 'non-empty string' : 'string', value);
+    }
+    return value;
+  },
+});
+
+export const number = (options: { min?: number; max?: number } = {}): Schema<number> => ({
+  parse(value, path = '') {
+    const { min, max } = options;
+    const inRange = typeof value === 'number' && Number.isFinite(value) &&
+      (min === undefined || value >= min) && (max === undefined || value <= max);
+    if (!inRange) {
+      const range = min !== undefined || max !== undefined ? ` in [${min ?? '-∞'}, ${max ?? '∞'}]` : '';
+      throw new SchemaValidationError(path, `number${range}`, value);
+    }
+    return value as number;
+  },
+});
+
+export const boolean = (): Schema<boolean> => ({
+  parse(value, path = '') {
+    if (typeof value !== 'boolean') throw new SchemaValidationError(path, 'boolean', value);
+    return value;
+  },
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  parse(value, path = '') {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      throw new SchemaValidationError(path, `one of ${values.map(v => `"${v}"`).join(', ')}`, value);
+    }
+    return value as T;
+  },
+});
+
+export const unknown = (): Schema<unknown> => ({
+  parse: value => value,
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse(value, path = '') {
+    return value === undefined || value === null ? undefined : schema.parse(value, path);
+  },
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse(value, path = '') {
+    if (!Array.isArray(value)) throw new SchemaValidationError(path, 'array', value);
+    return value.map((entry, index) => item.parse(entry, joinPath(path, index)));
+  },
+});
+
+export const record = <T>(entry: Schema<T>): Schema<Record<string, T>> => ({
+  parse(value, path = '') {
+    if (!isRecord(value)) throw new SchemaValidationError(path, 'object', value);
+    const result: Record<string, T> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = entry.parse(item, joinPath(path, key));
+    }
+    return result;
+  },
+});
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+/**
+ * Validates the listed keys and keeps any additional ones untouched, so the
+ * backend can add fields without breaking older clients.
+ */
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+  parse(value, path = '') {
+    if (!isRecord(value)) throw new SchemaValidationError(path, 'object', value);
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, schema] of Object.entries(shape)) {
+      const parsed = schema.parse(value[key], joinPath(path, key));
+      if (parsed === undefined) delete result[key];
+      else result[key] = parsed;
+    }
+    return result as ObjectOf<S>;
+  },
+});
+
+/**
+ * Post-processes a validated value. `fn` may throw SchemaValidationError for
+ * cross-field rules that a single field schema cannot express.
+ */
+export const transform = <T, U>(schema: Schema<T>, fn: (value: T, path: string) => U): Schema<U> => ({
+  parse(value, path = '') {
+    return fn(schema.parse(value, path), path);
+  },
+});
@@ -0,0 +1,89 @@
+import type { AllergyScreening } from '@/lib/allergy/types';
+import type { FdaLabelSection, MedicineSuitability } from '@/lib/api/schemas';
+import type { ContraindicationCheck } from '@/lib/conditions/types';
+import type { DoseRecommendation, HepaticImpairment } from '@/lib/dosing/types';
+import type { InteractionCheck } from '@/lib/interactions/types';
+import type { GuidelineRecommendation } from '@/lib/pgx/types';
+
+export type AllergySeverity = 'mild' | 'moderate' | 'severe' | 'unknown';
+
+export interface AllergyEntry {
+  substance: string;
+  reaction: string;
+  severity: AllergySeverity;
+}
+
+export interface MedicationEntry {
+  drug: string;
+  dose: string;
+  frequency: string;
+}
+
+export interface PatientFormData {
+  medicineName: string;
+  gender: string;
+  age: number;
+  weight: string;
+  height: string;
+  /** Serum creatinine in mg/dL; optional, enables renal dose adjustment. */
+  serumCreatinine: string;
+  hepaticImpairment: HepaticImpairment;
+  chronicConditions: string;
+  allergies: AllergyEntry[];
+  currentMedications: MedicationEntry[];
+  /** Other medicines in the regimen, predicted alongside `medicineName`. */
+  additionalMedicines: string[];
+  /** Pharmacogene calls from an uploaded VCF or raw-genotype file. */
+  genotypes?: GeneticMarker[];
+}
+
+export interface GeneticMarker {
+  gene: string;
+  genotype: string;
+  phenotype: string;
+  activityScore: number;
+  drugsAffected: string[];
+  clinicalSignificance: string;
+}
+
+export interface PredictionResult {
+  prediction: string;
+  confidence: number;
+  isRealAI?: boolean;
+  isEnhanced?: boolean;
+  drugName?: string;
+  dosage?: string;
+  dosing?: DoseRecommendation;
+  explanation?: string;
+  medicineSuitability?: MedicineSuitability | null;
+  geneticMarkers?: GeneticMarker[];
+  /** Gene–drug guideline recommendations for `drugName` from the markers above. */
+  pgxGuidance?: GuidelineRecommendation[];
+  /** `drugName` screened against the patient's allergies. */
+  allergyScreening?: AllergyScreening;
+  /** `drugName` checked against the coded chronic conditions. */
+  contraindicationCheck?: ContraindicationCheck;
+  medicalHistory?: string;
+  patientData?: {
+    demographics: Record<string, unknown>;
+    vitals: Record<string, unknown>;
+    medicalHistory: string[];
+    allergies: AllergyEntry[];
+    currentMedications: MedicationEntry[];
+  };
+  drugInfo?: {
+    rxnormData: Record<string, unknown>;
+    fdaData: Record<string, unknown>;
+    interactions: Record<string, unknown>;
+    dosageInfo: Record<string, unknown>;
+  };
+  clinicalRecommendations?: string[];
+  /** Prescribing-information sections from the drug's openFDA label. */
+  fdaLabel?: FdaLabelSection[];
+  /** `drugName` checked against the patient's current medications. */
+  interactionCheck?: InteractionCheck;
+  /** One line per finding of the local safety checks above, for exports and counts. */
+  warnings?: string[];
+  responseTime?: number;
+  source?: string;
+}